@@ -1,8 +1,9 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { ILoginInfo, IPAICluster, IPAIClusterInfo } from '@api/v2';
-import { PAIHttpClient } from '@pai/commom/paiHttpClient';
+import { IPAICluster, IPAIClusterInfo } from '@api/v2';
+import { IPAIMiddleware } from '@pai/commom/middlewares';
+import { ITokenHooks, PAIHttpClient } from '@pai/commom/paiHttpClient';
 import { Util } from '@pai/commom/util';
 import { URL } from 'url';
 
@@ -59,14 +60,24 @@ export class OpenPAIBaseClient {
     }
 
     /**
-     * Get OpenPAI access token.
+     * Get OpenPAI access token, login again if it is missing or expired.
      */
     public async getToken(): Promise<string> {
-        if (!this.cluster.token) {
-            const info: ILoginInfo = await this.httpClient.login();
-            this.cluster.token = info.token;
-        }
+        return this.httpClient.getToken();
+    }
+
+    /**
+     * Append a middleware to the http pipeline of this client.
+     */
+    public use(middleware: IPAIMiddleware): this {
+        this.httpClient.use(middleware);
+        return this;
+    }
 
-        return this.cluster.token;
+    /**
+     * Set the token hooks (e.g. a credential provider) of the cluster, shared by all clients of the cluster.
+     */
+    public setTokenHooks(hooks: ITokenHooks): void {
+        PAIHttpClient.setTokenHooks(this.cluster, hooks);
     }
 }
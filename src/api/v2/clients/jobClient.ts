@@ -2,12 +2,40 @@
 // Licensed under the MIT License.
 
 import {
-    IJobConfig, IJobInfo, IJobSshInfo, IJobStatus, IPAICluster, IPAIResponse
+    IJobConfig, IJobInfo, IJobListIterOptions, IJobListOptions, IJobSshInfo, IJobStatus, IPAICluster, IPAIResponse
 } from '@api/v2';
+import { IJobEvents, IJobStatusDetails } from '@api/v2/models/job';
+import { paiError } from '@pai/commom/errors/paiError';
+import { networkConfigOf } from '@pai/commom/networkOptions';
 import { Util } from '@pai/commom/util';
+import { validateJobConfig, IJobConfigError, JobConfigValidationError } from '@protocol/v2';
+import axios, { AxiosResponse } from 'axios';
 import * as yaml from 'js-yaml';
+import { StringDecoder } from 'string_decoder';
 
 import { OpenPAIBaseClient } from './baseClient';
+import { cloneJobConfig, IJobCloneOptions } from './jobClone';
+import { planSweep, IJobSweepOptions, ISweepJobStatus, ISweepManifest, SweepSpace } from './jobSweep';
+import { waitForCompletion, COMPLETED_STATES, IJobWaitOptions, IJobWatchOptions, JobWatcher } from './jobWatcher';
+import { sleepUnlessAborted, tailOf, taskLogUrlOf, ITaskLogFollowOptions, ITaskLogOptions } from './taskLogs';
+
+const DEFAULT_SWEEP_CONCURRENCY: number = 4;
+
+/**
+ * the query parameters of listing jobs, the list values are joined with commas
+ */
+function jobListQueryOf(opts: IJobListOptions = {}): { [key: string]: string | number | undefined } {
+    const join = (value?: string | string[]) => Array.isArray(value) ? value.join(',') : value;
+    return {
+        username: join(opts.username),
+        vc: join(opts.virtualCluster),
+        state: join(opts.state),
+        keyword: opts.keyword,
+        offset: opts.offset,
+        limit: opts.limit,
+        order: opts.order
+    };
+}
 
 /**
  * OpenPAI Job client.
@@ -20,8 +48,15 @@ export class JobClient extends OpenPAIBaseClient {
     /**
      * Submit a job in the system.
      * @param jobConfig The job config.
+     * @param validate Validate the job config before submitting it, JobConfigValidationError is thrown if it is invalid.
      */
-    public async createJob(jobConfig: IJobConfig): Promise<IPAIResponse> {
+    public async createJob(jobConfig: IJobConfig, validate: boolean = true): Promise<IPAIResponse> {
+        if (validate) {
+            const errors: IJobConfigError[] = validateJobConfig(jobConfig);
+            if (errors.length > 0) {
+                throw new JobConfigValidationError(errors);
+            }
+        }
         const url: string = Util.fixUrl(
             `${this.cluster.rest_server_uri}/api/v2/jobs`,
             this.cluster.https
@@ -36,19 +71,117 @@ export class JobClient extends OpenPAIBaseClient {
     }
 
     /**
-     * Get the list of jobs.
-     * @param username filter jobs with username.
+     * Clone a job, which submits the job config of an existing job with a new name and the overrides.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param opts The new name (default is the original name with a random suffix) and the overrides.
+     * @returns The submitted job config.
+     */
+    public async clone(userName: string, jobName: string, opts?: IJobCloneOptions): Promise<IJobConfig> {
+        const jobConfig: IJobConfig = cloneJobConfig(await this.getJobConfig(userName, jobName), opts);
+        await this.createJob(jobConfig);
+        return jobConfig;
+    }
+
+    /**
+     * Submit a job for each parameter set in the search space, with the parameters of the base job config overridden.
+     * All the job configs are validated before submitting any of them, and the failed submissions are kept in the errors.
+     * @param jobConfig The base job config.
+     * @param space The search space (grid, random or list).
+     * @param opts The concurrency of submitting and whether it is a dry run.
+     * @returns The manifest of the sweep, which maps the job names to the parameter sets.
+     */
+    public async sweep(jobConfig: IJobConfig, space: SweepSpace, opts: IJobSweepOptions = {}): Promise<ISweepManifest> {
+        const { manifest, jobConfigs } = planSweep(jobConfig, space, this.config.username());
+        for (const config of jobConfigs) {
+            const errors: IJobConfigError[] = validateJobConfig(config);
+            if (errors.length > 0) {
+                throw new JobConfigValidationError(errors);
+            }
+        }
+        if (opts.dryRun) {
+            return manifest;
+        }
+        const submitErrors: { [jobName: string]: string } = {};
+        await Util.mapLimit(jobConfigs, opts.concurrency || DEFAULT_SWEEP_CONCURRENCY, async (config: IJobConfig) => {
+            try {
+                await this.createJob(config, false);
+            } catch (err) {
+                submitErrors[config.name] = (err as Error).message;
+            }
+        });
+        if (Object.keys(submitErrors).length > 0) {
+            manifest.errors = submitErrors;
+        }
+        return manifest;
+    }
+
+    /**
+     * Get the status of the jobs in a sweep.
+     * @param manifest The manifest returned by sweep.
+     * @param concurrency The max number of jobs queried at the same time.
+     */
+    public async getSweepStatus(
+        manifest: ISweepManifest, concurrency: number = DEFAULT_SWEEP_CONCURRENCY
+    ): Promise<ISweepJobStatus[]> {
+        const submitErrors: { [jobName: string]: string } = manifest.errors || {};
+        return Util.mapLimit(Object.entries(manifest.jobs), concurrency, async ([jobName, parameters]) => {
+            const result: ISweepJobStatus = { jobName: jobName, parameters: parameters };
+            if (submitErrors[jobName]) {
+                result.error = submitErrors[jobName];
+            } else {
+                try {
+                    result.status = (await this.getJob(manifest.userName, jobName)).jobStatus;
+                } catch (err) {
+                    result.error = (err as Error).message;
+                }
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Get the list of jobs, which is filtered and paged by the rest-server.
+     * @param opts The user name, or the filtering and paging options.
      */
-    public async listJobs(username?: string): Promise<IJobInfo[]> {
+    public async listJobs(opts?: string | IJobListOptions): Promise<IJobInfo[]> {
         const url: string = Util.fixUrl(
             `${this.cluster.rest_server_uri}/api/v2/jobs`,
             this.cluster.https
         );
         return await this.httpClient.get(
-            url, undefined, undefined, { username }
+            url, undefined, undefined, jobListQueryOf(typeof opts === 'string' ? { username: opts } : opts)
         );
     }
 
+    /**
+     * Iterate the jobs page by page, the next page is requested after the current one is consumed.
+     * @param opts The filtering options, the offset and limit of the whole iteration and the page size.
+     */
+    public async *listJobsIter(opts: IJobListIterOptions = {}): AsyncIterableIterator<IJobInfo> {
+        const { pageSize = 100, offset = 0, limit, ...filters } = opts;
+        if (!(pageSize >= 1)) {
+            throw new Error(`InvalidPageSize: ${pageSize} should be at least 1`);
+        }
+        const keyOf = (job?: IJobInfo) => job && `${job.username}~${job.name}`;
+        let count: number = 0;
+        let previous: string | undefined;
+        while (limit === undefined || count < limit) {
+            const size: number = limit === undefined ? pageSize : Math.min(pageSize, limit - count);
+            const page: IJobInfo[] = await this.listJobs({ ...filters, offset: offset + count, limit: size });
+            if (count > 0 && keyOf(page[0]) === previous) {
+                break; // the same page is returned again, the server ignores the offset
+            }
+            yield* page;
+            count += page.length;
+            previous = keyOf(page[0]);
+            // a short (or empty) page is the last one, and a longer one means the server ignores the limit
+            if (page.length !== size) {
+                break;
+            }
+        }
+    }
+
     /**
      * Get job status.
      * @param userName The user name.
@@ -62,6 +195,168 @@ export class JobClient extends OpenPAIBaseClient {
         return await this.httpClient.get(url);
     }
 
+    /**
+     * Delete a job, the job should be completed or stopped before deleted.
+     * @param userName The user name.
+     * @param jobName The job name.
+     */
+    public async deleteJob(userName: string, jobName: string): Promise<IPAIResponse> {
+        const url: string = Util.fixUrl(
+            `${this.cluster.rest_server_uri}/api/v2/jobs/${userName}~${jobName}`,
+            this.cluster.https
+        );
+        return await this.httpClient.delete(url);
+    }
+
+    /**
+     * Get job SSH information.
+     * @param userName The user name.
+     * @param jobName The job name.
+     */
+    public async getJobSshInfo(userName: string, jobName: string): Promise<IJobSshInfo> {
+        const url: string = Util.fixUrl(
+            `${this.cluster.rest_server_uri}/api/v2/jobs/${userName}~${jobName}/ssh`,
+            this.cluster.https
+        );
+        return await this.httpClient.get(url);
+    }
+
+    /**
+     * Get the events (diagnostics) of a job.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param type Filter events with the type, 'Normal' or 'Warning'.
+     */
+    public async getJobEvents(userName: string, jobName: string, type?: 'Normal' | 'Warning'): Promise<IJobEvents> {
+        const url: string = Util.fixUrl(
+            `${this.cluster.rest_server_uri}/api/v2/jobs/${userName}~${jobName}/events`,
+            this.cluster.https
+        );
+        return await this.httpClient.get(url, undefined, undefined, { type });
+    }
+
+    /**
+     * Add a tag to a job.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param tag The tag.
+     */
+    public async addJobTag(userName: string, jobName: string, tag: string): Promise<IPAIResponse> {
+        const url: string = Util.fixUrl(
+            `${this.cluster.rest_server_uri}/api/v2/jobs/${userName}~${jobName}/tag`,
+            this.cluster.https
+        );
+        return await this.httpClient.put(url, { value: tag });
+    }
+
+    /**
+     * Remove a tag from a job.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param tag The tag.
+     */
+    public async deleteJobTag(userName: string, jobName: string, tag: string): Promise<IPAIResponse> {
+        const url: string = Util.fixUrl(
+            `${this.cluster.rest_server_uri}/api/v2/jobs/${userName}~${jobName}/tag`,
+            this.cluster.https
+        );
+        return await this.httpClient.delete(url, undefined, { data: { value: tag } });
+    }
+
+    /**
+     * Watch a job by polling its status, which emits the snapshots and state transitions until it is completed.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param opts The polling options.
+     */
+    public watch(userName: string, jobName: string, opts?: IJobWatchOptions): JobWatcher {
+        return new JobWatcher(async () => this.getJob(userName, jobName), opts);
+    }
+
+    /**
+     * Wait until the job is completed (SUCCEEDED, FAILED or STOPPED) and return the final status.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param opts The polling options and the timeout.
+     */
+    public async waitForCompletion(
+        userName: string, jobName: string, opts: IJobWaitOptions = {}
+    ): Promise<IJobStatusDetails> {
+        return waitForCompletion(this.watch(userName, jobName, opts), opts.timeout);
+    }
+
+    /**
+     * Get the log of a task.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param taskRole The task role.
+     * @param taskIndex The task index.
+     * @param opts The log stream ('stdout', 'stderr' or 'all') and the tail size.
+     */
+    public async getTaskLogs(
+        userName: string, jobName: string, taskRole: string, taskIndex: number, opts: ITaskLogOptions = {}
+    ): Promise<string> {
+        const url: string | undefined = taskLogUrlOf(
+            await this.getJob(userName, jobName), taskRole, taskIndex, opts.stream
+        );
+        if (!url) {
+            throw new Error(`NoTaskLog: ${taskRole}[${taskIndex}] of job ${jobName} is not started`);
+        }
+        return (await this.getLogFrom(url, opts.tailBytes ? -opts.tailBytes : undefined)).toString();
+    }
+
+    /**
+     * Follow the log of a task, which yields the existing log and then the new chunks by polling,
+     * until the job is completed or aborted. It waits for the task to be started, and restarts from
+     * the beginning if the task is retried in another container.
+     * @param userName The user name.
+     * @param jobName The job name.
+     * @param taskRole The task role.
+     * @param taskIndex The task index.
+     * @param opts The log stream, the tail size of the existing log and the polling options.
+     */
+    public async *followTaskLogs(
+        userName: string, jobName: string, taskRole: string, taskIndex: number, opts: ITaskLogFollowOptions = {}
+    ): AsyncIterableIterator<string> {
+        const interval: number = opts.interval || 3000;
+        let url: string | undefined;
+        let offset: number = 0;
+        let decoder: StringDecoder = new StringDecoder('utf8');
+        while (!opts.abortSignal || !opts.abortSignal.aborted) {
+            const status: IJobStatus = await this.getJob(userName, jobName);
+            const latest: string | undefined = taskLogUrlOf(status, taskRole, taskIndex, opts.stream);
+            const completed: boolean = COMPLETED_STATES.includes(status.jobStatus.state);
+            if (latest && latest !== url) {
+                const existing: Buffer = await this.getLogFrom(latest, 0);
+                // the tail only applies to the first container, the log of a retried one is yielded from the beginning
+                decoder = new StringDecoder('utf8');
+                const chunk: string = decoder.write(url ? existing : tailOf(existing, opts.tailBytes));
+                url = latest;
+                offset = existing.length;
+                if (chunk) {
+                    yield chunk;
+                }
+            }
+            // read the new bytes until nothing is appended, then check whether the task is moved or completed,
+            // the decoder keeps the incomplete characters at the end of a chunk for the next one
+            while (url && (!opts.abortSignal || !opts.abortSignal.aborted)) {
+                const data: Buffer = await this.getLogFrom(url, offset);
+                if (!data.length) {
+                    break;
+                }
+                offset += data.length;
+                const chunk: string = decoder.write(data);
+                if (chunk) {
+                    yield chunk;
+                }
+            }
+            if (completed) {
+                return;
+            }
+            await sleepUnlessAborted(interval, opts.abortSignal);
+        }
+    }
+
     /**
      * Get job configuration.
      * This API always returns job config in v2 format (text/yaml).
@@ -92,4 +387,22 @@ export class JobClient extends OpenPAIBaseClient {
         );
         return await this.httpClient.put(url, { value: type });
     }
+
+    /**
+     * read the raw bytes of a log file from the byte offset,
+     * the log is served by the node of the container, which should not receive the token of the rest-server
+     */
+    private async getLogFrom(url: string, start?: number): Promise<Buffer> {
+        try {
+            const response: AxiosResponse<ArrayBuffer> = await axios.get(url, {
+                ...networkConfigOf(this.cluster, url),
+                params: { start },
+                responseType: 'arraybuffer',
+                timeout: this.cluster.request_timeout || OpenPAIBaseClient.TIMEOUT
+            });
+            return Buffer.from(response.data);
+        } catch (err) {
+            throw paiError(err);
+        }
+    }
 }
@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IJobConfig } from '@protocol/v2';
+import * as crypto from 'crypto';
+import lodash from 'lodash';
+
+export type DeepPartial<T> = {
+    [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/**
+ * Options of cloning a job.
+ * The overrides are deep merged into the job config, e.g.
+ * `{ parameters: { lr: 0.1 }, taskRoles: { worker: { instances: 2 } }, defaults: { virtualCluster: 'vc1' } }`,
+ * and the arrays (e.g. commands) are replaced rather than merged.
+ */
+export interface IJobCloneOptions {
+    newName?: string; // default is the original name with a random suffix
+    overrides?: DeepPartial<IJobConfig>;
+}
+
+const CLONE_SUFFIX: RegExp = /_clone_[0-9a-f]{8}$/;
+
+/**
+ * a unique name of the cloned job, the suffix of the previous cloning (if any) is replaced
+ */
+export function cloneNameOf(name: string): string {
+    return `${name.replace(CLONE_SUFFIX, '')}_clone_${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * the job config of the cloned job, the original one is not changed
+ */
+export function cloneJobConfig(config: IJobConfig, opts: IJobCloneOptions = {}): IJobConfig {
+    const cloned: IJobConfig = lodash.mergeWith(
+        lodash.cloneDeep(config),
+        opts.overrides,
+        (_: any, src: any) => Array.isArray(src) ? lodash.cloneDeep(src) : undefined
+    );
+    cloned.name = opts.newName || cloneNameOf(config.name);
+    return cloned;
+}
@@ -0,0 +1,158 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IJobStatusDetails } from '@api/v2/models/job';
+import { IJobConfig } from '@protocol/v2';
+import * as crypto from 'crypto';
+import lodash from 'lodash';
+
+/**
+ * The parameters of a job in the sweep, which override the `parameters` of the base job config.
+ */
+export type SweepParameters = { [key: string]: any };
+
+/**
+ * All the combinations of the values, e.g. `{ type: 'grid', parameters: { lr: [0.1, 0.01], layers: [2, 3] } }`.
+ */
+export interface IGridSweepSpace {
+    type: 'grid';
+    parameters: { [key: string]: any[] };
+}
+
+/**
+ * A value uniformly sampled in [min, max], or in log scale if `log` is set.
+ */
+export interface ISweepRange {
+    min: number;
+    max: number;
+    log?: boolean;
+    integer?: boolean;
+}
+
+/**
+ * `count` random samples, each value is either chosen from a list or sampled in a range, e.g.
+ * `{ type: 'random', count: 10, parameters: { lr: { min: 0.0001, max: 0.1, log: true }, optimizer: ['sgd', 'adam'] } }`.
+ */
+export interface IRandomSweepSpace {
+    type: 'random';
+    count: number;
+    parameters: { [key: string]: any[] | ISweepRange };
+}
+
+/**
+ * The explicit parameter sets, e.g. `{ type: 'list', trials: [{ lr: 0.1 }, { lr: 0.01, layers: 3 }] }`.
+ */
+export interface IListSweepSpace {
+    type: 'list';
+    trials: SweepParameters[];
+}
+
+export type SweepSpace = IGridSweepSpace | IRandomSweepSpace | IListSweepSpace;
+
+/**
+ * Options of a sweep.
+ */
+export interface IJobSweepOptions {
+    concurrency?: number; // max number of jobs submitted at the same time, default is 4
+    dryRun?: boolean; // only generate the manifest without submitting the jobs
+}
+
+/**
+ * The submitted jobs of a sweep, which could be saved to poll the status later.
+ */
+export interface ISweepManifest {
+    sweepId: string;
+    userName: string;
+    baseName: string; // the name of the base job config
+    jobs: { [jobName: string]: SweepParameters };
+    errors?: { [jobName: string]: string }; // the jobs failed to submit
+}
+
+/**
+ * The status of a job in the sweep, `error` is set if it failed to submit or the status is not available.
+ */
+export interface ISweepJobStatus {
+    jobName: string;
+    parameters: SweepParameters;
+    status?: IJobStatusDetails;
+    error?: string;
+}
+
+// a random number in [0, 1)
+function random(): number {
+    return crypto.randomBytes(4).readUInt32BE(0) / 0x100000000;
+}
+
+function isRange(values: any[] | ISweepRange): values is ISweepRange {
+    return !Array.isArray(values);
+}
+
+function sample(key: string, values: any[] | ISweepRange): any {
+    if (!isRange(values)) {
+        if (values.length === 0) {
+            throw new Error(`InvalidSweepSpace: no value of ${key}`);
+        }
+        return values[Math.floor(random() * values.length)];
+    }
+    const { min, max, log, integer } = values;
+    if (!(min <= max) || (log && min <= 0)) {
+        throw new Error(`InvalidSweepSpace: the range of ${key} should be 0 < min <= max in log scale, or min <= max`);
+    }
+    if (integer) {
+        return log ?
+            Math.floor(Math.exp(Math.log(min) + random() * (Math.log(max + 1) - Math.log(min)))) :
+            Math.floor(min + random() * (max - min + 1));
+    }
+    return log ? Math.exp(Math.log(min) + random() * (Math.log(max) - Math.log(min))) : min + random() * (max - min);
+}
+
+/**
+ * the parameter sets of the search space
+ */
+export function sweepTrialsOf(space: SweepSpace): SweepParameters[] {
+    let trials: SweepParameters[];
+    switch (space.type) {
+        case 'grid':
+            trials = [{}];
+            for (const [key, values] of Object.entries(space.parameters || {})) {
+                if (!Array.isArray(values) || values.length === 0) {
+                    throw new Error(`InvalidSweepSpace: the values of ${key} should be a non-empty list`);
+                }
+                trials = lodash.flatMap(trials, trial => values.map(value => ({ ...trial, [key]: value })));
+            }
+            break;
+        case 'random':
+            if (!Number.isInteger(space.count) || space.count < 1) {
+                throw new Error('InvalidSweepSpace: the count should be a positive integer');
+            }
+            trials = lodash.times(space.count, () => lodash.mapValues(space.parameters || {}, (values, key) => sample(key, values)));
+            break;
+        case 'list':
+            trials = space.trials || [];
+            break;
+        default:
+            throw new Error(`InvalidSweepSpace: unknown type ${(space as any).type}, should be grid, random or list`);
+    }
+    if (trials.length === 0 || Object.keys(trials[0]).length === 0) {
+        throw new Error('InvalidSweepSpace: no parameter to sweep');
+    }
+    return trials;
+}
+
+/**
+ * the job configs of the sweep and the manifest, the jobs are named `<base name>_sweep_<8 hex>_<index>`
+ */
+export function planSweep(
+    config: IJobConfig, space: SweepSpace, userName: string
+): { manifest: ISweepManifest, jobConfigs: IJobConfig[] } {
+    const sweepId: string = crypto.randomBytes(4).toString('hex');
+    const manifest: ISweepManifest = { sweepId: sweepId, userName: userName, baseName: config.name, jobs: {} };
+    const jobConfigs: IJobConfig[] = sweepTrialsOf(space).map((parameters, index) => {
+        const jobConfig: IJobConfig = lodash.cloneDeep(config);
+        jobConfig.name = `${config.name}_sweep_${sweepId}_${index}`;
+        jobConfig.parameters = { ...config.parameters, ...lodash.cloneDeep(parameters) };
+        manifest.jobs[jobConfig.name] = parameters;
+        return jobConfig;
+    });
+    return { manifest: manifest, jobConfigs: jobConfigs };
+}
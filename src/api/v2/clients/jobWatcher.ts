@@ -0,0 +1,240 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import {
+    IJobStatus, IJobStatusDetails, JobState, JobTransition
+} from '@api/v2/models/job';
+import { AbortSignalLike } from '@azure/abort-controller';
+import { Util } from '@pai/commom/util';
+import { EventEmitter } from 'events';
+
+/**
+ * Options of watching a job.
+ * The polling interval starts from `interval`, grows (x1.5) while nothing changes up to `maxInterval`,
+ * and is reset once anything changes.
+ */
+export interface IJobWatchOptions {
+    interval?: number; // in milliseconds, default is 3000
+    maxInterval?: number; // in milliseconds, default is 30000
+    maxErrors?: number; // fail after the consecutive transient failures, default is 10
+    abortSignal?: AbortSignalLike; // stop watching
+}
+
+/**
+ * Options of waiting for the completion of a job.
+ */
+export interface IJobWaitOptions extends IJobWatchOptions {
+    timeout?: number; // in milliseconds, wait forever if not set
+}
+
+export const COMPLETED_STATES: JobState[] = ['SUCCEEDED', 'FAILED', 'STOPPED'];
+const BACKOFF_FACTOR: number = 1.5;
+
+/**
+ * the transitions from the previous snapshot to the current one
+ */
+export function transitionsOf(prev: IJobStatus | undefined, curr: IJobStatus): JobTransition[] {
+    const result: JobTransition[] = [];
+    const state: JobState = curr.jobStatus.state;
+    if (!prev || prev.jobStatus.state !== state) {
+        result.push({ type: 'state', from: prev && prev.jobStatus.state, to: state });
+    }
+    if (prev && curr.jobStatus.retries > prev.jobStatus.retries) {
+        result.push({ type: 'retry', from: prev.jobStatus.retries, to: curr.jobStatus.retries });
+    }
+    if (prev) {
+        for (const [taskRole, role] of Object.entries(curr.taskRoles || {})) {
+            const prevRole: IJobStatus['taskRoles'][string] | undefined = (prev.taskRoles || {})[taskRole];
+            for (const task of role.taskStatuses || []) {
+                const prevTask: { taskState: string } | undefined = prevRole &&
+                    (prevRole.taskStatuses || []).find(t => t.taskIndex === task.taskIndex);
+                if (!prevTask || prevTask.taskState !== task.taskState) {
+                    result.push({
+                        type: 'task',
+                        taskRole: taskRole,
+                        taskIndex: task.taskIndex,
+                        from: prevTask && prevTask.taskState,
+                        to: task.taskState
+                    });
+                }
+            }
+        }
+    }
+    if (COMPLETED_STATES.includes(state) && (!prev || !COMPLETED_STATES.includes(prev.jobStatus.state))) {
+        result.push({ type: 'completed', state: state, jobStatus: curr.jobStatus });
+    }
+    return result;
+}
+
+/**
+ * Watch a job by polling its status, it starts polling in the next tick and stops after the job is completed.
+ * Events:
+ * - 'status' (IJobStatus): every polled snapshot
+ * - 'transition' (JobTransition): every transition, which is also emitted as its type
+ *   ('state', 'task', 'retry' and 'completed')
+ * - 'error' (Error): the polling failed (transient failures are retried up to `maxErrors` times in a row),
+ *   only emitted if listened
+ * - 'end': the watching is ended (completed, failed or stopped)
+ * It is also an async iterator of the snapshots (from the latest one), and breaking the iteration stops the watching.
+ */
+export class JobWatcher extends EventEmitter implements AsyncIterable<IJobStatus> {
+    public latest?: IJobStatus;
+    public failure?: Error;
+
+    private readonly fetchStatus: () => Promise<IJobStatus>;
+    private readonly interval: number;
+    private readonly maxInterval: number;
+    private readonly maxErrors: number;
+    private readonly abortSignal?: AbortSignalLike;
+    private readonly onAbort: () => void;
+    private running: boolean = true;
+    private timer?: NodeJS.Timeout;
+    private wakeUp?: () => void;
+
+    constructor(fetchStatus: () => Promise<IJobStatus>, opts: IJobWatchOptions = {}) {
+        super();
+        this.fetchStatus = fetchStatus;
+        this.interval = opts.interval || 3000;
+        this.maxInterval = Math.max(opts.maxInterval || 30000, this.interval);
+        this.maxErrors = opts.maxErrors || 10;
+        this.abortSignal = opts.abortSignal;
+        this.onAbort = () => this.stop();
+        if (this.abortSignal) {
+            if (this.abortSignal.aborted) {
+                this.running = false;
+            }
+            this.abortSignal.addEventListener('abort', this.onAbort);
+        }
+        setImmediate(() => this.run());
+    }
+
+    public get isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * stop polling, the 'end' event is emitted after the ongoing request (if any) is finished
+     */
+    public stop(): void {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        if (this.wakeUp) {
+            this.wakeUp();
+        }
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncIterableIterator<IJobStatus> {
+        // start from the latest snapshot, and end at once if the watching is already ended
+        const queue: IJobStatus[] = this.latest ? [this.latest] : [];
+        let ended: boolean = !this.running;
+        const onStatus = (status: IJobStatus) => queue.push(status);
+        const onEnd = () => {
+            ended = true;
+        };
+        this.on('status', onStatus);
+        this.on('end', onEnd);
+        try {
+            while (true) {
+                if (queue.length > 0) {
+                    yield queue.shift()!;
+                } else if (this.failure) {
+                    throw this.failure;
+                } else if (ended) {
+                    return;
+                } else {
+                    await new Promise<void>((resolve: () => void) => {
+                        const wake = () => {
+                            this.off('status', wake);
+                            this.off('end', wake);
+                            resolve();
+                        };
+                        this.on('status', wake);
+                        this.on('end', wake);
+                    });
+                }
+            }
+        } finally {
+            this.off('status', onStatus);
+            this.off('end', onEnd);
+            this.stop();
+        }
+    }
+
+    private async run(): Promise<void> {
+        let interval: number = this.interval;
+        let errors: number = 0;
+        while (this.running) {
+            let status: IJobStatus;
+            try {
+                status = await this.fetchStatus();
+                errors = 0;
+            } catch (err) {
+                if (!err.isRetryable || ++errors >= this.maxErrors) {
+                    this.failure = err;
+                    break;
+                }
+                Util.debug(`failed to poll the job status, will retry: ${err.message}`);
+                interval = Math.min(interval * BACKOFF_FACTOR, this.maxInterval);
+                await this.sleep(interval);
+                continue;
+            }
+            const transitions: JobTransition[] = transitionsOf(this.latest, status);
+            this.latest = status;
+            this.emit('status', status);
+            for (const transition of transitions) {
+                this.emit('transition', transition);
+                this.emit(transition.type, transition);
+            }
+            if (COMPLETED_STATES.includes(status.jobStatus.state)) {
+                break;
+            }
+            interval = transitions.length > 0 ? this.interval : Math.min(interval * BACKOFF_FACTOR, this.maxInterval);
+            await this.sleep(interval);
+        }
+        this.running = false;
+        if (this.abortSignal) {
+            this.abortSignal.removeEventListener('abort', this.onAbort);
+        }
+        if (this.failure && this.listenerCount('error') > 0) {
+            this.emit('error', this.failure);
+        }
+        this.emit('end');
+    }
+
+    private async sleep(ms: number): Promise<void> {
+        if (!this.running) {
+            return;
+        }
+        await new Promise<void>((resolve: () => void) => {
+            this.wakeUp = resolve;
+            this.timer = setTimeout(resolve, ms);
+        });
+        this.wakeUp = undefined;
+        this.timer = undefined;
+    }
+}
+
+/**
+ * resolve with the final status details after the job is completed
+ */
+export async function waitForCompletion(watcher: JobWatcher, timeout?: number): Promise<IJobStatusDetails> {
+    return new Promise<IJobStatusDetails>((resolve, reject) => {
+        const timer: NodeJS.Timeout | undefined = timeout ? setTimeout(
+            () => {
+                reject(new Error(`WaitTimeout: the job is not completed in ${timeout} ms`));
+                watcher.stop();
+            },
+            timeout
+        ) : undefined;
+        watcher.on('completed', (completion: { jobStatus: IJobStatusDetails }) => resolve(completion.jobStatus));
+        watcher.on('error', reject);
+        watcher.on('end', () => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            reject(watcher.failure || new Error('AbortError: the watching is aborted'));
+        });
+    });
+}
@@ -17,6 +17,7 @@ import {
     UserClient,
     VirtualClusterClient
 } from '@api/v2/clients';
+import { IPAIMiddleware } from '@pai/commom/middlewares';
 
 /**
  * OpenPAI Client.
@@ -94,4 +95,16 @@ export class OpenPAIClient extends OpenPAIBaseClient {
         this.cache.delegate(this.storage, this.storage.getStorages);
         this.cache.delegate(this.storage, this.storage.getStorage);
     }
+
+    /**
+     * Append a middleware to the http pipelines of this client and all the sub clients.
+     */
+    public use(middleware: IPAIMiddleware): this {
+        super.use(middleware);
+        [
+            this.job, this.token, this.user, this.virtualCluster, this.authn, this.storage,
+            this.group, this.api, this.jobHistory, this.kubernetes
+        ].forEach((client: OpenPAIBaseClient) => client.use(middleware));
+        return this;
+    }
 }
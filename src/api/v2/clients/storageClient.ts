@@ -4,7 +4,6 @@
 import { IPAICluster } from '@api/v2';
 import { IStorageDetail, IStorageSummary } from '@api/v2/models/storage';
 import { Util } from '@pai/commom/util';
-import { IAzureBlobCfg } from '@pai/storage/clients/azureBlobClient';
 import { IStorageDispatcher, StorageNode } from '@pai/storage/clients/storageNode';
 
 import { OpenPAIBaseClient } from './baseClient';
@@ -48,12 +47,9 @@ export class StorageClient extends OpenPAIBaseClient {
  */
 export class StorageNodeV2 extends StorageNode<IStorageDetail> {
     public storageConfigDispatcher(config: IStorageDetail): IStorageDispatcher {
-        if (config.type === 'azureBlob') {
-            return {
-                type: config.type,
-                data: config.data as IAzureBlobCfg
-            };
-        }
-        throw Error('NotImplemented');
+        return {
+            type: config.type,
+            data: config.data
+        };
     }
 }
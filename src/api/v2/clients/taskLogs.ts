@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IJobStatus, ITaskStatus } from '@api/v2/models/job';
+import { AbortSignalLike } from '@azure/abort-controller';
+
+export type TaskLogStream = 'stdout' | 'stderr' | 'all';
+
+/**
+ * Options of getting the log of a task.
+ */
+export interface ITaskLogOptions {
+    stream?: TaskLogStream; // default is 'all' (stdout and stderr)
+    tailBytes?: number; // only the last bytes, default is the whole log
+}
+
+/**
+ * Options of following the log of a task, the first chunk is the (tail of) existing log.
+ */
+export interface ITaskLogFollowOptions extends ITaskLogOptions {
+    interval?: number; // in milliseconds, default is 3000
+    abortSignal?: AbortSignalLike; // stop following
+}
+
+/**
+ * the url of a log file of the task, undefined if the task is not started yet.
+ * The log files (user.pai.<stream>) are in the container log folder,
+ * and are read from the byte offset of the `start` query (negative for the last bytes).
+ */
+export function taskLogUrlOf(
+    status: IJobStatus, taskRole: string, taskIndex: number, stream: TaskLogStream = 'all'
+): string | undefined {
+    const role: IJobStatus['taskRoles'][string] | undefined = (status.taskRoles || {})[taskRole];
+    if (!role) {
+        throw new Error(`NoTaskRole: ${taskRole} is not in job ${status.name}`);
+    }
+    const task: ITaskStatus | undefined = (role.taskStatuses || []).find(t => t.taskIndex === taskIndex);
+    if (!task) {
+        throw new Error(`NoTask: ${taskRole}[${taskIndex}] is not in job ${status.name}`);
+    }
+    if (!task.containerLog) {
+        return undefined;
+    }
+    return `${task.containerLog.replace(/\/*$/, '/')}user.pai.${stream}`;
+}
+
+/**
+ * the last bytes of the log
+ */
+export function tailOf(data: Buffer, tailBytes?: number): Buffer {
+    return tailBytes && data.length > tailBytes ? data.slice(data.length - tailBytes) : data;
+}
+
+/**
+ * sleep for a while, resolve earlier if aborted
+ */
+export async function sleepUnlessAborted(ms: number, abortSignal?: AbortSignalLike): Promise<void> {
+    if (abortSignal && abortSignal.aborted) {
+        return;
+    }
+    await new Promise<void>((resolve: () => void) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer: NodeJS.Timeout = setTimeout(
+            () => {
+                if (abortSignal) {
+                    abortSignal.removeEventListener('abort', onAbort);
+                }
+                resolve();
+            },
+            ms
+        );
+        if (abortSignal) {
+            abortSignal.addEventListener('abort', onAbort);
+        }
+    });
+}
@@ -1,6 +1,9 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import {
+    headerMiddleware, loggingMiddleware, timingMiddleware, ILoggingOptions, IPAIMiddleware, IRequestTiming
+} from '@pai/commom/middlewares';
 import { IJobConfig } from '@protocol/v2';
 
 import {
@@ -16,11 +19,22 @@ import {
     VirtualClusterClient
 } from './clients';
 import { GroupClient } from './clients/groupClient';
+import { DeepPartial, IJobCloneOptions } from './clients/jobClone';
+import {
+    IGridSweepSpace, IJobSweepOptions, IListSweepSpace, IRandomSweepSpace, ISweepJobStatus, ISweepManifest, ISweepRange,
+    SweepParameters, SweepSpace
+} from './clients/jobSweep';
+import { IJobWaitOptions, IJobWatchOptions, JobWatcher } from './clients/jobWatcher';
 import { StorageNodeV2 as StorageNode } from './clients/storageClient';
+import { ITaskLogFollowOptions, ITaskLogOptions, TaskLogStream } from './clients/taskLogs';
 import { IAuthnInfo, ILoginInfo } from './models/authn';
-import { IPAICluster, IPAIClusterInfo } from './models/cluster';
+import { INetworkOptions, IPAICluster, IPAIClusterInfo, IRetryPolicy } from './models/cluster';
 import { IGroup } from './models/group';
-import { IJobAttempt, IJobFrameworkInfo, IJobInfo, IJobSshInfo, IJobStatus } from './models/job';
+import {
+    IJobAttempt, IJobCompletion, IJobEvent, IJobEvents, IJobFrameworkInfo, IJobInfo, IJobListIterOptions,
+    IJobListOptions, IJobRetryTransition, IJobSshInfo, IJobStateTransition, IJobStatus, IJobStatusDetails,
+    ITaskStateTransition, JobState, JobTransition
+} from './models/job';
 import { IPAIResponse } from './models/paiResponse';
 import { IMountInfo, IStorageConfig, IStorageDetail, IStorageServer, IStorageSummary } from './models/storage';
 import { IToken, ITokenList } from './models/token';
@@ -40,11 +54,17 @@ export {
     VirtualClusterClient,
     IPAICluster,
     IPAIClusterInfo,
+    IRetryPolicy,
+    INetworkOptions,
     IJobConfig,
     IJobInfo,
     IJobFrameworkInfo,
     IJobSshInfo,
     IJobAttempt,
+    IJobEvent,
+    IJobEvents,
+    IJobListOptions,
+    IJobListIterOptions,
     IUser,
     IUpdateUserProfile,
     IToken,
@@ -59,11 +79,41 @@ export {
     IStorageDetail,
     IMountInfo,
     IJobStatus,
+    IJobStatusDetails,
+    JobState,
+    JobTransition,
+    IJobStateTransition,
+    ITaskStateTransition,
+    IJobRetryTransition,
+    IJobCompletion,
+    JobWatcher,
+    IJobWatchOptions,
+    IJobWaitOptions,
+    IJobCloneOptions,
+    DeepPartial,
+    SweepSpace,
+    IGridSweepSpace,
+    IRandomSweepSpace,
+    IListSweepSpace,
+    ISweepRange,
+    SweepParameters,
+    IJobSweepOptions,
+    ISweepManifest,
+    ISweepJobStatus,
+    ITaskLogOptions,
+    ITaskLogFollowOptions,
+    TaskLogStream,
     StorageNode,
     IGroup,
     GroupClient,
     ApiClient,
     JobHistoryClient,
     IPAIResponse,
-    KubernetesClient
+    KubernetesClient,
+    IPAIMiddleware,
+    IRequestTiming,
+    ILoggingOptions,
+    loggingMiddleware,
+    timingMiddleware,
+    headerMiddleware
 };
@@ -107,6 +107,48 @@ export interface IJobStatus {
     };
 }
 
+export type JobState = IJobStatusDetails['state'];
+
+/**
+ * The job state is changed, `from` is undefined for the first snapshot.
+ */
+export interface IJobStateTransition {
+    type: 'state';
+    from?: JobState;
+    to: JobState;
+}
+
+/**
+ * The state of a task is changed, `from` is undefined for a new task.
+ */
+export interface ITaskStateTransition {
+    type: 'task';
+    taskRole: string;
+    taskIndex: number;
+    from?: string;
+    to: string;
+}
+
+/**
+ * The job is retried.
+ */
+export interface IJobRetryTransition {
+    type: 'retry';
+    from: number;
+    to: number;
+}
+
+/**
+ * The job is completed (SUCCEEDED, FAILED or STOPPED).
+ */
+export interface IJobCompletion {
+    type: 'completed';
+    state: JobState;
+    jobStatus: IJobStatusDetails;
+}
+
+export type JobTransition = IJobStateTransition | ITaskStateTransition | IJobRetryTransition | IJobCompletion;
+
 /**
  * OpenPAI Job Framework Infomation.
  */
@@ -124,6 +166,53 @@ export interface IJobSshInfo {
     keyPair?: any | null;
 }
 
+/**
+ * OpenPAI Job Event.
+ */
+export interface IJobEvent {
+    uid?: string;
+    type: 'Normal' | 'Warning' | string;
+    reason?: string;
+    message: string;
+    firstTimestamp?: string;
+    lastTimestamp?: string;
+    count?: number;
+    involvedObjKind?: string;
+    involvedObjName?: string;
+}
+
+/**
+ * OpenPAI Job Events.
+ */
+export interface IJobEvents {
+    totalCount: number;
+    data: IJobEvent[];
+}
+
+/**
+ * Filtering and paging options of listing jobs, the list values are matched with any of them.
+ */
+export interface IJobListOptions {
+    username?: string | string[];
+    virtualCluster?: string | string[];
+    state?: JobState | JobState[];
+    keyword?: string; // matched with the job name, user name and virtual cluster
+    offset?: number;
+    limit?: number;
+    /**
+     * '<field>,<ASC|DESC>' e.g. 'submissionTime,DESC', the fields are
+     * jobName, submissionTime, username, vc, retries, totalTaskNumber, totalGpuNumber and state
+     */
+    order?: string;
+}
+
+/**
+ * Options of iterating jobs, the offset and limit apply to the whole iteration.
+ */
+export interface IJobListIterOptions extends IJobListOptions {
+    pageSize?: number; // jobs per request, default is 100
+}
+
 export interface IJobAttempt {
     jobName?: string;
     frameworkName?: string;
@@ -2,6 +2,8 @@
 // Licensed under the MIT License.
 
 import { IAzureBlobCfg } from '@pai/storage/clients/azureBlobClient';
+import { ILocalCfg } from '@pai/storage/clients/localClient';
+import { IWebHdfsCfg } from '@pai/storage/clients/webHdfsClient';
 
 /**
  * OpenPAI storage information.
@@ -43,12 +45,16 @@ export interface IStorageSummary {
 export interface INfsCfg {
     server: string;
     path: string;
+    /** Client side only, the local mount point of the storage. */
+    mountRoot?: string;
 }
 
 export interface ISambaCfg {
     address: string;
     username?: string;
     password?: string;
+    /** Client side only, the local mount point of the storage. */
+    mountRoot?: string;
 }
 
 export interface IAzureFileCfg {
@@ -58,8 +64,8 @@ export interface IAzureFileCfg {
 }
 
 export interface IStorageDetail extends IStorageSummaryItem {
-    type: 'nfs' | 'samba' | 'azureFile' | 'azureBlob' | 'other' | 'unknown';
-    data: INfsCfg | ISambaCfg | IAzureBlobCfg | IAzureFileCfg | Object;
+    type: 'nfs' | 'samba' | 'azureFile' | 'azureBlob' | 'hdfs' | 'local' | 'other' | 'unknown';
+    data: INfsCfg | ISambaCfg | IAzureBlobCfg | IAzureFileCfg | IWebHdfsCfg | ILocalCfg | Object;
     secretName?: string;
     mountOptions?: string[];
 }
@@ -0,0 +1,62 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Util } from '@pai/commom/util';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import lodash from 'lodash';
+import * as path from 'path';
+
+interface IOperation {
+    method: string;
+    pattern: RegExp;
+    params: number;
+    operationId: string;
+}
+
+// swagger.yaml is copied along with the built files, it is read in advance and parsed on demand
+const SWAGGER_FILE: string = path.join(__dirname, 'swagger.yaml');
+const swaggerContent: string | undefined = fs.existsSync(SWAGGER_FILE) ? fs.readFileSync(SWAGGER_FILE, 'utf8') : undefined;
+let operations: IOperation[] | undefined;
+
+/**
+ * parse the operations from swagger.yaml,
+ * the ones with less path parameters come first (e.g. /users/me before /users/{user})
+ */
+function loadOperations(): IOperation[] {
+    const result: IOperation[] = [];
+    if (!swaggerContent) {
+        return result;
+    }
+    try {
+        const swagger: any = yaml.safeLoad(swaggerContent);
+        for (const [template, methods] of Object.entries<any>(swagger.paths)) {
+            const source: string = template.replace(/\/$/, '').split(/{[^}]+}/).map(lodash.escapeRegExp).join('[^/]+');
+            for (const [method, operation] of Object.entries<any>(methods)) {
+                if (operation && operation.operationId) {
+                    result.push({
+                        method: method.toUpperCase(),
+                        pattern: new RegExp(`${source}/?$`),
+                        params: (template.match(/{[^}]+}/g) || []).length,
+                        operationId: operation.operationId
+                    });
+                }
+            }
+        }
+    } catch (err) {
+        Util.debug(`failed to load the operations from swagger: ${err.message}`);
+    }
+    return result.sort((a, b) => a.params - b.params);
+}
+
+/**
+ * Find the operationId (defined in swagger.yaml) of a request to rest-server.
+ */
+export function operationIdOf(method: string, url: string): string | undefined {
+    operations = operations || loadOperations();
+    const pathname: string = new URL(url, 'http://localhost').pathname;
+    const operation: IOperation | undefined = operations.find(
+        op => op.method === method.toUpperCase() && op.pattern.test(pathname)
+    );
+    return operation && operation.operationId;
+}
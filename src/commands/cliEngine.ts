@@ -7,6 +7,7 @@ import * as argparse from 'argparse';
 import * as path from 'path';
 
 import { Identifiable } from '../commom/identifiable';
+import { PAIHttpClient } from '../commom/paiHttpClient';
 import { Util } from '../commom/util';
 
 import { readJson, writeJson } from './utils';
@@ -61,6 +62,8 @@ function defaultFommater(result: IResult): void {
  * by providing filtering, and client construction
  */
 class LocalClustersManager extends Identifiable<IClusterWithCache, string> {
+    public onTokenRefreshed?: () => Promise<void>; // to persist the refreshed token
+
     public getClusterConfig(alias: string): IPAICluster {
         const idx: number = this.indexOf(alias);
         if (idx > -1) {
@@ -74,6 +77,9 @@ class LocalClustersManager extends Identifiable<IClusterWithCache, string> {
             if (!this.data[idx].cache) {
                 this.data[idx].cache = []; // ! link cache space with the client
             }
+            if (this.onTokenRefreshed) {
+                PAIHttpClient.setTokenHooks(this.data[idx].cluster, { onTokenRefreshed: this.onTokenRefreshed });
+            }
             return new OpenPAIClient(this.data[idx].cluster, this.data[idx].cache);
         }
         throw new Error(`AliasNotFound: ${alias}`);
@@ -93,6 +99,7 @@ export class CliEngine {
 
     constructor(input?: string | IClusterWithCache[]) {
         this.manager = new LocalClustersManager();
+        this.manager.onTokenRefreshed = async () => this.store();
         if (input) {
             if (typeof input === 'string') {
                 this.clustersFileName = Util.expandUser(input);
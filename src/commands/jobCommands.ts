@@ -1,8 +1,12 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { IJobConfig, IJobInfo, IJobStatus, OpenPAIClient } from '@api/v2';
+import {
+    IJobConfig, IJobInfo, IJobStatus, ISweepJobStatus, ISweepManifest, ITaskLogFollowOptions, OpenPAIClient, SweepSpace
+} from '@api/v2';
 import { ITaskStatus } from '@pai/api/v2/models/job';
+import { IJobConfig as IJobConfigV1 } from '@protocol/v1';
+import { checkJobConfig, convertFromV1, renderJobConfig, IConversionResult, IRenderedTaskRole } from '@protocol/v2';
 import assert from 'assert';
 import * as fs from 'fs-extra';
 import * as yaml from 'js-yaml';
@@ -10,7 +14,7 @@ import * as yaml from 'js-yaml';
 import { Util } from '../commom/util';
 
 import { CliEngine, IResult } from './cliEngine';
-import { table2Console } from './utils';
+import { parseAssignments, table2Console } from './utils';
 /**
  * register job realted commands
  */
@@ -18,14 +22,21 @@ export function registerJobCommands(cli: CliEngine): void {
     cli.registerCommand(
         { name: 'listj', help: 'list jobs', aliases: ['list-jobs'] },
         [
-            { name: 'alias', help: 'cluster alias' }
+            { name: 'alias', help: 'cluster alias' },
+            { name: ['--vc'], help: 'filter jobs with virtual clusters', nargs: '+' },
+            { name: ['--state'], help: 'filter jobs with states, e.g. RUNNING', nargs: '+' },
+            { name: ['--keyword', '-k'], help: 'filter jobs with a keyword in the job name, username or VC' },
+            { name: ['--limit', '-n'], help: 'the max number of jobs', type: 'int' }
         ],
         async (a) => {
             const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
-            if (a.all) {
-                return client.job.listJobs();
-            }
-            return client.job.listJobs(a.user || client.config.username());
+            return client.job.listJobs({
+                username: a.all ? undefined : a.user || client.config.username(),
+                virtualCluster: a.vc,
+                state: a.state,
+                keyword: a.keyword,
+                limit: a.limit
+            });
         },
         [
             {
@@ -49,29 +60,170 @@ export function registerJobCommands(cli: CliEngine): void {
         }
     );
 
+    cli.registerCommand(
+        { name: 'getj', help: 'get job details', aliases: ['job-info'] },
+        [
+            { name: ['--user'], help: 'username' },
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'job', help: 'config file' }
+        ],
+        async (a) => {
+            const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
+            return client.job.getJob(a.user || client.config.username(), a.job);
+        }
+    );
+
+    registerSubmitCommands(cli);
+    registerSweepCommands(cli);
+    registerTaskCommands(cli);
+    registerConfigCommands(cli);
+}
+
+/**
+ * commands to submit jobs
+ */
+function registerSubmitCommands(cli: CliEngine): void {
     cli.registerCommand(
         { name: 'subj', help: 'submit job' },
         [
+            { name: ['--no-validate'], help: 'submit without validating the job config', action: 'storeTrue' },
             { name: 'alias', help: 'cluster alias' },
             { name: 'cfgfile', help: 'config file' }
         ],
         async (a) => {
             const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
             const config: IJobConfig = yaml.safeLoad(fs.readFileSync(Util.expandUser(a.cfgfile), 'utf8'));
-            return client.job.createJob(config);
+            if (!a.no_validate) {
+                checkJobConfig(config).warnings.forEach(warning => console.warn(`# ${warning.path} ${warning.message}`));
+            }
+            return client.job.createJob(config, !a.no_validate);
         }
     );
 
     cli.registerCommand(
-        { name: 'getj', help: 'get job details', aliases: ['job-info'] },
+        { name: 'clonej', help: 'clone a job with a new name and overrides', aliases: ['clone-job'] },
         [
             { name: ['--user'], help: 'username' },
+            { name: ['--name', '-n'], help: 'name of the new job (default is the original one with a random suffix)' },
+            {
+                name: ['--set', '-s'],
+                help: 'override the job config, e.g. parameters.lr=0.1 taskRoles.worker.instances=2',
+                nargs: '+',
+                dest: 'overrides',
+                defaultValue: []
+            },
             { name: 'alias', help: 'cluster alias' },
-            { name: 'job', help: 'config file' }
+            { name: 'job', help: 'job name' }
         ],
         async (a) => {
             const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
-            return client.job.getJob(a.user || client.config.username(), a.job);
+            const config: IJobConfig = await client.job.clone(a.user || client.config.username(), a.job, {
+                newName: a.name || undefined,
+                overrides: parseAssignments(a.overrides)
+            });
+            return `job ${config.name} submitted`;
+        }
+    );
+}
+
+/**
+ * commands to submit the jobs of a hyperparameter sweep and query their status
+ */
+function registerSweepCommands(cli: CliEngine): void {
+    cli.registerCommand(
+        { name: 'sweep', help: 'submit a job for each parameter set in the search space' },
+        [
+            { name: ['--concurrency', '-c'], help: 'max number of jobs submitted at the same time', type: 'int' },
+            { name: ['--output', '-o'], help: 'the manifest file of the sweep (default is printing it)' },
+            { name: ['--dry-run'], help: 'only generate the manifest without submitting', action: 'storeTrue' },
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'cfgfile', help: 'the base job config file' },
+            { name: 'spacefile', help: 'the search space file, e.g. {type: grid, parameters: {lr: [0.1, 0.01]}}' }
+        ],
+        async (a) => {
+            const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
+            const config: IJobConfig = yaml.safeLoad(fs.readFileSync(Util.expandUser(a.cfgfile), 'utf8'));
+            const space: SweepSpace = yaml.safeLoad(fs.readFileSync(Util.expandUser(a.spacefile), 'utf8'));
+            const manifest: ISweepManifest = await client.job.sweep(config, space, {
+                concurrency: a.concurrency || undefined,
+                dryRun: a.dry_run
+            });
+            if (a.output) {
+                await fs.writeFile(Util.expandUser(a.output), yaml.safeDump(manifest));
+            }
+            return manifest;
+        },
+        undefined,
+        (r: IResult) => {
+            const manifest: ISweepManifest = r.result as ISweepManifest;
+            if (!r.args!.output) {
+                console.log(yaml.safeDump(manifest));
+            }
+            const errors: { [jobName: string]: string } = manifest.errors || {};
+            const submitted: number = Object.keys(manifest.jobs).length - Object.keys(errors).length;
+            console.log(`${submitted} of ${Object.keys(manifest.jobs).length} jobs ${r.args!.dry_run ? 'planned' : 'submitted'}`);
+            Object.entries(errors).forEach(([jobName, error]) => console.warn(`# ${jobName} ${error}`));
+        }
+    );
+
+    cli.registerCommand(
+        { name: 'sweep-status', help: 'query the status of the jobs in a sweep' },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'manifest', help: 'the manifest file of the sweep' }
+        ],
+        async (a) => {
+            const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
+            const manifest: ISweepManifest = yaml.safeLoad(fs.readFileSync(Util.expandUser(a.manifest), 'utf8'));
+            return client.job.getSweepStatus(manifest);
+        },
+        undefined,
+        (r: IResult) => {
+            const rows: any[][] = [['name', 'state', 'parameters']];
+            (r.result as ISweepJobStatus[]).forEach(job => rows.push([
+                job.jobName, job.status ? job.status.state : job.error, JSON.stringify(job.parameters)
+            ]));
+            table2Console(rows);
+        }
+    );
+}
+
+/**
+ * commands to access the tasks of a job
+ */
+function registerTaskCommands(cli: CliEngine): void {
+    cli.registerCommand(
+        { name: 'logs', help: 'print the log of a job task' },
+        [
+            { name: ['--user'], help: 'username' },
+            { name: ['--stream', '-s'], help: 'the log stream', choices: ['stdout', 'stderr', 'all'], defaultValue: 'all' },
+            { name: ['--tail', '-t'], help: 'only print the last bytes of the existing log', type: 'int' },
+            { name: ['--follow', '-f'], help: 'keep printing the new log until the job is completed', action: 'storeTrue' },
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'job', help: 'job name' },
+            { name: 'taskrole', help: 'task role (default is the first one)', nargs: '?' },
+            { name: 'taskindex', help: 'task index (default is 0)', nargs: '?', type: 'int', defaultValue: 0 }
+        ],
+        async (a) => {
+            const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
+            const user: string = a.user || client.config.username();
+            if (!a.taskrole) {
+                a.taskrole = Object.keys((await client.job.getJob(user, a.job)).taskRoles)[0];
+            }
+            const opts: ITaskLogFollowOptions = { stream: a.stream, tailBytes: a.tail || undefined };
+            if (!a.follow) {
+                return client.job.getTaskLogs(user, a.job, a.taskrole, a.taskindex, opts);
+            }
+            const chunks: AsyncIterable<string> = client.job.followTaskLogs(user, a.job, a.taskrole, a.taskindex, opts);
+            for await (const chunk of chunks) {
+                process.stdout.write(chunk);
+            }
+        },
+        undefined,
+        (r: IResult) => {
+            if (r.result) {
+                process.stdout.write(r.result);
+            }
         }
     );
 
@@ -106,3 +258,55 @@ export function registerJobCommands(cli: CliEngine): void {
         }
     );
 }
+
+/**
+ * commands to process the job config files locally
+ */
+function registerConfigCommands(cli: CliEngine): void {
+    cli.registerCommand(
+        { name: 'render', help: 'print the effective commands of each task role in a job config file' },
+        [
+            { name: ['--deployment', '-d'], help: 'the deployment (default is the one in defaults)' },
+            { name: ['--show-secrets'], help: 'print the secrets rather than masking them', action: 'storeTrue' },
+            { name: 'cfgfile', help: 'config file' }
+        ],
+        async (a) => {
+            const config: IJobConfig = yaml.safeLoad(fs.readFileSync(Util.expandUser(a.cfgfile), 'utf8'));
+            return renderJobConfig(config, { deployment: a.deployment || undefined, showSecrets: a.show_secrets });
+        },
+        undefined,
+        (r: IResult) => {
+            for (const [name, role] of Object.entries(r.result as { [taskRole: string]: IRenderedTaskRole })) {
+                console.log(`# ${name}${role.dockerImage ? ` (${role.dockerImage})` : ''}`);
+                role.commands.forEach(command => console.log(command));
+                if (role.unresolved.length > 0) {
+                    console.warn(`# unresolved references: ${role.unresolved.join(', ')}`);
+                }
+            }
+        }
+    );
+
+    cli.registerCommand(
+        { name: 'convert-config', help: 'convert a v1 job config file to v2' },
+        [
+            { name: ['--output', '-o'], help: 'the v2 job config file (default is printing it)' },
+            { name: 'cfgfile', help: 'v1 job config file (json or yaml)' }
+        ],
+        async (a) => {
+            const v1: IJobConfigV1 = yaml.safeLoad(fs.readFileSync(Util.expandUser(a.cfgfile), 'utf8'));
+            const result: IConversionResult = convertFromV1(v1);
+            if (a.output) {
+                await fs.writeFile(Util.expandUser(a.output), yaml.safeDump(result.config));
+            }
+            return result;
+        },
+        undefined,
+        (r: IResult) => {
+            const result: IConversionResult = r.result as IConversionResult;
+            if (!r.args!.output) {
+                console.log(yaml.safeDump(result.config));
+            }
+            result.issues.forEach(issue => console.warn(`# ${issue.path} ${issue.message}`));
+        }
+    );
+}
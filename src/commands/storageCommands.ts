@@ -1,9 +1,52 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { OpenPAIClient } from '@api/v2';
+import { IStorageDetail, OpenPAIClient, StorageNode } from '@api/v2';
+import { IDirEntry, IFileInfo, ISyncAction } from '@pai/storage';
 
-import { CliEngine } from './cliEngine';
+import { CliEngine, IResult } from './cliEngine';
+import { table2Console } from './utils';
+
+/**
+ * a path on cluster storage, in format of <storage>:<path>
+ */
+interface IRemotePath {
+    storage: string;
+    path: string;
+}
+
+/**
+ * parse <storage>:<path>, return undefined for a local path
+ * (single letter before colon is regarded as a windows drive)
+ */
+export function parseRemotePath(p: string): IRemotePath | undefined {
+    const match: RegExpMatchArray | null = p.match(/^([^:\/\\]{2,}):(.*)$/);
+    if (match) {
+        return { storage: match[1], path: match[2] || '/' };
+    }
+    return undefined;
+}
+
+function parseRemotePathOrThrow(p: string): IRemotePath {
+    const remote: IRemotePath | undefined = parseRemotePath(p);
+    if (!remote) {
+        throw new Error(`WrongRemotePath: ${p} (should be <storage>:<path>)`);
+    }
+    return remote;
+}
+
+async function getStorageNode(cli: CliEngine, alias: string, storage: string, skipCache?: boolean): Promise<StorageNode> {
+    const client: OpenPAIClient = cli.manager.getClusterClient(alias);
+    const detail: IStorageDetail = await client.cache.functions.getStorage(skipCache, storage);
+    return new StorageNode(detail, cli.manager.getClusterConfig(alias));
+}
+
+function fileInfoRow(name: string, info: IFileInfo): any[] {
+    return [
+        name, info.type, info.size, info.mode, info.owner,
+        info.mtime ? new Date(info.mtime).toLocaleString() : undefined
+    ];
+}
 
 /**
  * register storage related commands
@@ -30,7 +73,166 @@ export function registerStorageCommands(cli: CliEngine): void {
         ],
         async (a) => {
             const client: OpenPAIClient = cli.manager.getClusterClient(a.alias);
-            return await client.cache.functions.getStorageByName(a.skip_cache, a.storage);
+            return await client.cache.functions.getStorage(a.skip_cache, a.storage);
+        }
+    );
+
+    registerFileQueryCommands(cli);
+    registerFileOperationCommands(cli);
+    registerSyncCommand(cli);
+}
+
+/**
+ * commands to query the files in storage
+ */
+function registerFileQueryCommands(cli: CliEngine): void {
+    cli.registerCommand(
+        { name: 'ls', help: 'list a directory in storage', aliases: ['listdir'] },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'remote', help: 'remote path in format of <storage>:<path>' },
+            { name: ['--skip-cache', '-k'], help: 'skip cached record, fetch latest value', action: 'storeTrue' }
+        ],
+        async (a) => {
+            const remote: IRemotePath = parseRemotePathOrThrow(a.remote);
+            const node: StorageNode = await getStorageNode(cli, a.alias, remote.storage, a.skip_cache);
+            return node.listdir(remote.path, { withInfo: true });
+        },
+        undefined,
+        (r: IResult) => {
+            const rows: any[][] = [
+                ['name', 'type', 'size', 'mode', 'owner', 'modifiedTime']
+            ];
+            (r.result as IDirEntry[]).forEach(item => rows.push(fileInfoRow(item.name, item)));
+            table2Console(rows);
+        }
+    );
+
+    cli.registerCommand(
+        { name: 'stat', help: 'get status of a path in storage' },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'remote', help: 'remote path in format of <storage>:<path>' },
+            { name: ['--skip-cache', '-k'], help: 'skip cached record, fetch latest value', action: 'storeTrue' }
+        ],
+        async (a) => {
+            const remote: IRemotePath = parseRemotePathOrThrow(a.remote);
+            const node: StorageNode = await getStorageNode(cli, a.alias, remote.storage, a.skip_cache);
+            return node.getinfo(remote.path);
+        },
+        undefined,
+        (r: IResult) => {
+            const rows: any[][] = [
+                ['name', 'type', 'size', 'mode', 'owner', 'modifiedTime']
+            ];
+            rows.push(fileInfoRow(r.args!.remote, r.result as IFileInfo));
+            table2Console(rows);
+        }
+    );
+}
+
+/**
+ * commands to create, delete and copy the files in storage
+ */
+function registerFileOperationCommands(cli: CliEngine): void {
+    cli.registerCommand(
+        { name: 'mkdir', help: 'create a directory in storage', aliases: ['makedir'] },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'remote', help: 'remote path in format of <storage>:<path>' },
+            { name: ['--mode', '-m'], help: 'permission of the directory (e.g. 755)' },
+            { name: ['--skip-cache', '-k'], help: 'skip cached record, fetch latest value', action: 'storeTrue' }
+        ],
+        async (a) => {
+            const remote: IRemotePath = parseRemotePathOrThrow(a.remote);
+            const node: StorageNode = await getStorageNode(cli, a.alias, remote.storage, a.skip_cache);
+            await node.makedir(remote.path, a.mode);
+        }
+    );
+
+    cli.registerCommand(
+        { name: 'rm', help: 'delete a file (or a directory with -r) in storage', aliases: ['delete'] },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'remote', help: 'remote path in format of <storage>:<path>' },
+            { name: ['--recursive', '-r'], help: 'delete a directory recursively', action: 'storeTrue' },
+            { name: ['--skip-cache', '-k'], help: 'skip cached record, fetch latest value', action: 'storeTrue' }
+        ],
+        async (a) => {
+            const remote: IRemotePath = parseRemotePathOrThrow(a.remote);
+            const node: StorageNode = await getStorageNode(cli, a.alias, remote.storage, a.skip_cache);
+            if (a.recursive) {
+                await node.deleteFolder(remote.path);
+            } else {
+                await node.delete(remote.path);
+            }
+        }
+    );
+
+    cli.registerCommand(
+        { name: 'cp', help: 'copy between local and storage, one of src and dst should be <storage>:<path>', aliases: ['copy'] },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'src', help: 'source path' },
+            { name: 'dst', help: 'destination path' },
+            { name: ['--recursive', '-r'], help: 'copy a directory recursively', action: 'storeTrue' },
+            { name: ['--skip-cache', '-k'], help: 'skip cached record, fetch latest value', action: 'storeTrue' }
+        ],
+        async (a) => {
+            const src: IRemotePath | undefined = parseRemotePath(a.src);
+            const dst: IRemotePath | undefined = parseRemotePath(a.dst);
+            if (src && !dst) { // download
+                const node: StorageNode = await getStorageNode(cli, a.alias, src.storage, a.skip_cache);
+                await (a.recursive ? node.downloadFolder(src.path, a.dst) : node.download(src.path, a.dst));
+            } else if (dst && !src) { // upload
+                const node: StorageNode = await getStorageNode(cli, a.alias, dst.storage, a.skip_cache);
+                await (a.recursive ? node.uploadFolder(a.src, dst.path) : node.upload(a.src, dst.path));
+            } else {
+                throw new Error('NotSupported: one and only one of src and dst should be <storage>:<path>');
+            }
+        }
+    );
+}
+
+/**
+ * command to upload the changed files of a local folder
+ */
+function registerSyncCommand(cli: CliEngine): void {
+    cli.registerCommand(
+        { name: 'sync', help: 'upload the changed files of a local folder to storage' },
+        [
+            { name: 'alias', help: 'cluster alias' },
+            { name: 'src', help: 'local folder' },
+            { name: 'dst', help: 'remote folder in format of <storage>:<path>' },
+            { name: ['--delete'], help: 'delete the remote files which do not exist locally', action: 'storeTrue' },
+            { name: ['--dry-run', '-n'], help: 'print the plan without transferring', action: 'storeTrue' },
+            { name: ['--checksum', '-c'], help: 'compare MD5 if the storage exposes it', action: 'storeTrue' },
+            { name: ['--exclude', '-x'], help: 'glob pattern of files to skip', action: 'append' },
+            { name: ['--skip-cache', '-k'], help: 'skip cached record, fetch latest value', action: 'storeTrue' }
+        ],
+        async (a) => {
+            const dst: IRemotePath = parseRemotePathOrThrow(a.dst);
+            const node: StorageNode = await getStorageNode(cli, a.alias, dst.storage, a.skip_cache);
+            return node.sync(a.src, dst.path, {
+                delete: a.delete,
+                dryRun: a.dry_run,
+                checksum: a.checksum,
+                exclude: a.exclude || undefined
+            });
+        },
+        undefined,
+        (r: IResult) => {
+            const actions: ISyncAction[] = r.result as ISyncAction[];
+            if (actions.length === 0) {
+                console.log('already up to date');
+                return;
+            }
+            const rows: any[][] = [
+                ['action', 'path', 'reason']
+            ];
+            actions.forEach(action => rows.push([action.action, action.path, action.reason]));
+            table2Console(rows);
+            console.log(`${actions.length} action(s) ${r.args!.dry_run ? 'planned (dry run)' : 'done'}`);
         }
     );
 }
@@ -2,6 +2,8 @@
 // Licensed under the MIT License.
 
 import * as fs from 'fs-extra';
+import * as yaml from 'js-yaml';
+import lodash from 'lodash';
 import { dirname } from 'path';
 import { getBorderCharacters, table } from 'table';
 
@@ -37,3 +39,18 @@ export function table2Console(rows: any[][]): void {
     const output: any = table(rows, config);
     console.log(output);
 }
+
+/**
+ * parse the assignments (e.g. `a.b=1`) into an object (e.g. `{ a: { b: 1 } }`), the values are parsed as yaml
+ */
+export function parseAssignments(assignments: string[]): object {
+    const result: object = {};
+    for (const assignment of assignments) {
+        const index: number = assignment.indexOf('=');
+        if (index <= 0) {
+            throw new Error(`WrongAssignment: ${assignment} is not in key=value format`);
+        }
+        lodash.set(result, assignment.slice(0, index).trim(), yaml.safeLoad(assignment.slice(index + 1)));
+    }
+    return result;
+}
@@ -0,0 +1,9 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+export * from './paiBaseError';
+export * from './paiClusterErrors';
+export * from './paiJobErrors';
+export * from './paiNetworkErrors';
+export * from './paiRequestErrors';
+export * from './paiUserErrors';
@@ -1,18 +1,40 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import { operationIdOf } from '@api/v2/operations';
 import { AxiosError } from 'axios';
 
+import { DEFAULT_RETRY_POLICY } from '../retryPolicy';
+
 /**
  * Base PAI error class.
  */
 export class PAIBaseError extends Error {
-    public status: number;
+    public status?: number; // undefined if no response is received
     public data: any;
+    public code?: string; // the code responded by rest-server, or the system error code (e.g. ECONNRESET)
+    public method?: string;
+    public url?: string;
+    public operationId?: string; // the operation (defined in swagger.yaml) of the request
 
     constructor(error: AxiosError) {
-        super(error.response!.data.message);
-        this.status = error.response!.status;
-        this.data = error.response!.data;
+        const response: any = error.response || {};
+        super(response.data && response.data.message || error.message);
+        this.name = new.target.name;
+        this.status = response.status;
+        this.data = response.data;
+        this.code = response.data && response.data.code || error.code;
+        if (error.config) {
+            this.method = (error.config.method || 'get').toUpperCase();
+            this.url = error.config.url;
+            this.operationId = this.url ? operationIdOf(this.method, this.url) : undefined;
+        }
+    }
+
+    /**
+     * Whether the failure is transient, so that the request could be sent again (if it is idempotent).
+     */
+    public get isRetryable(): boolean {
+        return this.status !== undefined && DEFAULT_RETRY_POLICY.status_codes.includes(this.status);
     }
 }
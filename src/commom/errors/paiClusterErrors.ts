@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+// tslint:disable: max-classes-per-file
+import { PAIBaseError } from './paiBaseError';
+
+/**
+ * No virtual cluster error.
+ */
+export class NoVirtualClusterError extends PAIBaseError {}
+
+/**
+ * Conflict virtual cluster error.
+ */
+export class ConflictVcError extends PAIBaseError {}
+
+/**
+ * Read only virtual cluster error.
+ */
+export class ReadOnlyVcError extends PAIBaseError {}
+
+/**
+ * Remove running virtual cluster error.
+ */
+export class RemoveRunningVcError extends PAIBaseError {}
+
+/**
+ * No enough quota error.
+ */
+export class NoEnoughQuotaError extends PAIBaseError {}
+
+/**
+ * No storage error.
+ */
+export class NoStorageError extends PAIBaseError {}
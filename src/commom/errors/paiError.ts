@@ -1,42 +1,93 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { AxiosError } from 'axios';
+import axios, { AxiosError } from 'axios';
 
 import { PAIBaseError } from './paiBaseError';
 import {
+    ConflictVcError,
+    NoEnoughQuotaError,
+    NoStorageError,
+    NoVirtualClusterError,
+    ReadOnlyVcError,
+    RemoveRunningVcError
+} from './paiClusterErrors';
+import {
+    ConflictJobError,
     NoJobConfigError,
     NoJobError,
+    NoJobSshInfoError,
+    ReadOnlyJobError,
     UnknownError
 } from './paiJobErrors';
+import { PAIAbortError, PAINetworkError, PAITimeoutError } from './paiNetworkErrors';
+import {
+    BadConfigurationError,
+    InvalidParametersError,
+    NotImplementedError,
+    NoApiError
+} from './paiRequestErrors';
 import {
     ConflictUserError,
+    ForbiddenKeyError,
+    ForbiddenTokenError,
     ForbiddenUserError,
+    IncorrectPasswordError,
+    NoGroupError,
     NoUserError,
+    RemoveAdminError,
     UnauthorizedUserError
 } from './paiUserErrors';
 
+/**
+ * The error classes of the codes responded by rest-server.
+ */
+const ERROR_CLASSES: Map<string, typeof PAIBaseError> = new Map<string, typeof PAIBaseError>([
+    ['BadConfigurationError', BadConfigurationError],
+    ['ConflictJobError', ConflictJobError],
+    ['ConflictUserError', ConflictUserError],
+    ['ConflictVcError', ConflictVcError],
+    ['ForbiddenUserError', ForbiddenUserError],
+    ['ForbiddenKeyError', ForbiddenKeyError],
+    ['ForbiddenTokenError', ForbiddenTokenError],
+    ['IncorrectPasswordError', IncorrectPasswordError],
+    ['InvalidParametersError', InvalidParametersError],
+    ['NoApiError', NoApiError],
+    ['NoJobError', NoJobError],
+    ['NoJobConfigError', NoJobConfigError],
+    ['NoJobSshInfoError', NoJobSshInfoError],
+    ['NoUserError', NoUserError],
+    ['NoGroupError', NoGroupError],
+    ['NoVirtualClusterError', NoVirtualClusterError],
+    ['NoStorageError', NoStorageError],
+    ['ReadOnlyJobError', ReadOnlyJobError],
+    ['RemoveAdminError', RemoveAdminError],
+    ['ReadOnlyVcError', ReadOnlyVcError],
+    ['RemoveRunningVcError', RemoveRunningVcError],
+    ['UnauthorizedUserError', UnauthorizedUserError],
+    ['NoEnoughQuotaError', NoEnoughQuotaError],
+    ['NotImplementedError', NotImplementedError],
+    ['UnknownError', UnknownError]
+]);
+
+function isTimeout(error: AxiosError): boolean {
+    return error.code === 'ETIMEDOUT' || (error.code === 'ECONNABORTED' && /timeout/i.test(error.message));
+}
+
 export function paiError(error: AxiosError): PAIBaseError {
+    if (axios.isCancel(error)) { // cancelled by the abort signal
+        return new PAIAbortError(error);
+    }
+    if (!error.isAxiosError) { // e.g. replaced by a middleware
+        throw error;
+    }
     if (error.response) {
-        switch (error.response.data.code) {
-            case 'NoJobError':
-                throw new NoJobError(error);
-            case 'NoJobConfigError':
-                throw new NoJobConfigError(error);
-            case 'UnauthorizedUserError':
-                throw new UnauthorizedUserError(error);
-            case 'ForbiddenUserError':
-                throw new ForbiddenUserError(error);
-            case 'ConflictUserError':
-                throw new ConflictUserError(error);
-            case 'NoUserError':
-                throw new NoUserError(error);
-            case 'UnknownError':
-                throw new UnknownError(error);
-            default:
-                throw new PAIBaseError(error);
-        }
+        const code: string | undefined = error.response.data ? error.response.data.code : undefined;
+        const errorClass: typeof PAIBaseError = code && ERROR_CLASSES.get(code) || PAIBaseError;
+        return new errorClass(error);
     }
-
-    return new PAIBaseError(error);
+    if (isTimeout(error)) {
+        return new PAITimeoutError(error);
+    }
+    return new PAINetworkError(error);
 }
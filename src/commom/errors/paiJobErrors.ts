@@ -15,6 +15,21 @@ export class NoJobError extends PAIBaseError {}
 export class NoJobConfigError extends PAIBaseError {}
 
 /**
- * No job config error.
+ * No job ssh info error.
+ */
+export class NoJobSshInfoError extends PAIBaseError {}
+
+/**
+ * Conflict job error.
+ */
+export class ConflictJobError extends PAIBaseError {}
+
+/**
+ * Read only job error.
+ */
+export class ReadOnlyJobError extends PAIBaseError {}
+
+/**
+ * Unknown error.
  */
 export class UnknownError extends PAIBaseError {}
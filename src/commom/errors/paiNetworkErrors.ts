@@ -0,0 +1,30 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+// tslint:disable: max-classes-per-file
+import { DEFAULT_RETRY_POLICY } from '../retryPolicy';
+
+import { PAIBaseError } from './paiBaseError';
+
+/**
+ * Network error, the request failed without a response (e.g. connection reset or refused).
+ */
+export class PAINetworkError extends PAIBaseError {
+    public get isRetryable(): boolean {
+        return !!this.code && DEFAULT_RETRY_POLICY.error_codes.includes(this.code);
+    }
+}
+
+/**
+ * Timeout error, no response is received in the request timeout.
+ */
+export class PAITimeoutError extends PAINetworkError {
+    public get isRetryable(): boolean {
+        return true;
+    }
+}
+
+/**
+ * Abort error, the request is cancelled by the abort signal.
+ */
+export class PAIAbortError extends PAIBaseError {}
@@ -0,0 +1,25 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+// tslint:disable: max-classes-per-file
+import { PAIBaseError } from './paiBaseError';
+
+/**
+ * Bad configuration error.
+ */
+export class BadConfigurationError extends PAIBaseError {}
+
+/**
+ * Invalid parameters error.
+ */
+export class InvalidParametersError extends PAIBaseError {}
+
+/**
+ * No api error.
+ */
+export class NoApiError extends PAIBaseError {}
+
+/**
+ * Not implemented error.
+ */
+export class NotImplementedError extends PAIBaseError {}
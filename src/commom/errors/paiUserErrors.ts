@@ -14,6 +14,11 @@ export class UnauthorizedUserError extends PAIBaseError {}
  */
 export class ForbiddenUserError extends PAIBaseError {}
 
+/**
+ * Forbidden token error, the operation is not allowed with an application token.
+ */
+export class ForbiddenTokenError extends PAIBaseError {}
+
 /**
  * Conflict user error.
  */
@@ -23,3 +28,23 @@ export class ConflictUserError extends PAIBaseError {}
  * No user error.
  */
 export class NoUserError extends PAIBaseError {}
+
+/**
+ * Forbidden key error.
+ */
+export class ForbiddenKeyError extends PAIBaseError {}
+
+/**
+ * Incorrect password error.
+ */
+export class IncorrectPasswordError extends PAIBaseError {}
+
+/**
+ * Remove admin error.
+ */
+export class RemoveAdminError extends PAIBaseError {}
+
+/**
+ * No group error.
+ */
+export class NoGroupError extends PAIBaseError {}
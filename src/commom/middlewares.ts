@@ -0,0 +1,125 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * A middleware of PAIHttpClient, the hooks are called for every request (including the retried ones).
+ * The request hooks are called in the order of registration, and so are the response and error hooks.
+ */
+export interface IPAIMiddleware {
+    name?: string;
+    onRequest?(config: AxiosRequestConfig): AxiosRequestConfig | Promise<AxiosRequestConfig>;
+    onResponse?(response: AxiosResponse): AxiosResponse | Promise<AxiosResponse>;
+    /**
+     * Observe the failure, throw another error to replace it for the following middlewares and the caller.
+     */
+    onError?(error: AxiosError): void | Promise<void>;
+}
+
+/**
+ * Timing of a finished (succeeded or failed) request
+ */
+export interface IRequestTiming {
+    method: string;
+    url: string;
+    status?: number;
+    duration: number; // in milliseconds
+}
+
+/**
+ * Options of the logging middleware
+ */
+export interface ILoggingOptions {
+    headers?: boolean; // also log the request headers (the authorization is redacted)
+    logger?(message: string): void; // default is console.log
+}
+
+const REDACTED: string = '<redacted>';
+
+function describe(config: AxiosRequestConfig): string {
+    return `${(config.method || 'get').toUpperCase()} ${config.url}`;
+}
+
+/**
+ * copy the headers and redact the credentials
+ */
+export function redactHeaders(headers: any = {}): any {
+    const result: any = { ...headers };
+    for (const key of Object.keys(result)) {
+        if (['authorization', 'proxy-authorization', 'cookie'].includes(key.toLowerCase())) {
+            result[key] = REDACTED;
+        }
+    }
+    return result;
+}
+
+/**
+ * log the requests, responses and errors, the credentials in headers are redacted
+ */
+export function loggingMiddleware(opts: ILoggingOptions = {}): IPAIMiddleware {
+    const log: (message: string) => void = opts.logger || console.log;
+    return {
+        name: 'logging',
+        onRequest: (config: AxiosRequestConfig) => {
+            log(`--> ${describe(config)}${opts.headers ? ` ${JSON.stringify(redactHeaders(config.headers))}` : ''}`);
+            return config;
+        },
+        onResponse: (response: AxiosResponse) => {
+            log(`<-- ${response.status} ${describe(response.config)}`);
+            return response;
+        },
+        onError: (error: AxiosError) => {
+            const status: string | number = error.response ? error.response.status : error.code || 'ERROR';
+            log(`<-- ${status} ${describe(error.config || {})} ${error.message}`);
+        }
+    };
+}
+
+/**
+ * report the duration of each request
+ */
+export function timingMiddleware(onTiming: (timing: IRequestTiming) => void): IPAIMiddleware {
+    const starts: WeakMap<AxiosRequestConfig, number> = new WeakMap<AxiosRequestConfig, number>();
+    const report = (config: AxiosRequestConfig = {}, status?: number) => {
+        const start: number | undefined = starts.get(config);
+        if (start !== undefined) {
+            onTiming({
+                method: (config.method || 'get').toUpperCase(),
+                url: config.url || '',
+                status: status,
+                duration: Date.now() - start
+            });
+        }
+    };
+    return {
+        name: 'timing',
+        onRequest: (config: AxiosRequestConfig) => {
+            starts.set(config, Date.now());
+            return config;
+        },
+        onResponse: (response: AxiosResponse) => {
+            report(response.config, response.status);
+            return response;
+        },
+        onError: (error: AxiosError) => {
+            report(error.config, error.response ? error.response.status : undefined);
+        }
+    };
+}
+
+/**
+ * inject headers into every request, a function value is evaluated per request (e.g. to generate a tracing ID)
+ */
+export function headerMiddleware(headers: { [name: string]: string | (() => string) }): IPAIMiddleware {
+    return {
+        name: 'header',
+        onRequest: (config: AxiosRequestConfig) => {
+            config.headers = { ...config.headers };
+            for (const [name, value] of Object.entries(headers)) {
+                config.headers[name] = typeof value === 'function' ? value() : value;
+            }
+            return config;
+        }
+    };
+}
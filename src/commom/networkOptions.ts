@@ -0,0 +1,104 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { INetworkOptions } from '@api/v2';
+import { AxiosProxyConfig, AxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as tunnel from 'tunnel';
+import { URL } from 'url';
+
+import { Util } from './util';
+
+// the agents are reused by the requests with the same settings to keep the connections alive
+const agents: Map<string, http.Agent> = new Map<string, http.Agent>();
+
+/**
+ * whether the host should be accessed directly rather than via the proxy
+ */
+export function isNoProxy(hostname: string, noProxy?: string[] | null): boolean {
+    const host: string = hostname.toLowerCase();
+    return (noProxy || []).some(pattern => {
+        const domain: string = pattern.trim().toLowerCase().replace(/^\*?\./, '');
+        return domain === '*' || host === domain || host.endsWith(`.${domain}`);
+    });
+}
+
+/**
+ * the proxy to access the url, undefined if no proxy is set or the host is in no_proxy
+ */
+export function proxyOf(opts: INetworkOptions, url: string): URL | undefined {
+    if (!opts.proxy || isNoProxy(new URL(url).hostname, opts.no_proxy)) {
+        return undefined;
+    }
+    return new URL(Util.fixUrl(opts.proxy));
+}
+
+function readPem(path?: string | null): Buffer | undefined {
+    return path ? fs.readFileSync(Util.expandUser(path)) : undefined;
+}
+
+function httpsAgentOf(opts: INetworkOptions, proxy?: URL): http.Agent {
+    const key: string = JSON.stringify([
+        proxy && proxy.href, opts.ca_file, opts.cert_file, opts.key_file, !!opts.insecure
+    ]);
+    let agent: http.Agent | undefined = agents.get(key);
+    if (!agent) {
+        const ca: Buffer | undefined = readPem(opts.ca_file);
+        const tlsOptions: https.AgentOptions = {
+            ca: ca ? [ca] : undefined,
+            cert: readPem(opts.cert_file),
+            key: readPem(opts.key_file),
+            rejectUnauthorized: !opts.insecure
+        };
+        if (proxy) {
+            const proxyOptions: tunnel.ProxyOptions = {
+                host: proxy.hostname,
+                port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80),
+                proxyAuth: proxy.username ?
+                    `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}` : undefined
+            };
+            // the tls options are passed to the connections to the target server
+            agent = proxy.protocol === 'https:' ?
+                tunnel.httpsOverHttps({ ...tlsOptions, proxy: proxyOptions } as tunnel.HttpsOverHttpsOptions) :
+                tunnel.httpsOverHttp({ ...tlsOptions, proxy: proxyOptions } as tunnel.HttpsOverHttpOptions);
+        } else {
+            agent = new https.Agent({ ...tlsOptions, keepAlive: true });
+        }
+        agents.set(key, agent);
+    }
+    return agent;
+}
+
+/**
+ * The axios options to apply the network settings to a request,
+ * https requests are tunneled (CONNECT) through the proxy, and http requests are forwarded by it.
+ * The proxy of the environment variables (e.g. HTTP_PROXY) is used by axios if no proxy is set.
+ */
+export function networkConfigOf(opts: INetworkOptions, url: string): AxiosRequestConfig {
+    const target: URL = new URL(Util.fixUrl(url));
+    const proxy: URL | undefined = proxyOf(opts, target.href);
+    const config: AxiosRequestConfig = {};
+    if (opts.proxy) {
+        config.proxy = false; // either via the proxy of the cluster or directly
+    }
+    if (target.protocol === 'https:') {
+        if (proxy || opts.ca_file || opts.cert_file || opts.insecure) {
+            config.httpsAgent = httpsAgentOf(opts, proxy);
+        }
+    } else if (proxy) {
+        const proxyConfig: AxiosProxyConfig = {
+            host: proxy.hostname,
+            port: Number(proxy.port) || 80
+        };
+        if (proxy.username) {
+            proxyConfig.auth = {
+                username: decodeURIComponent(proxy.username),
+                password: decodeURIComponent(proxy.password)
+            };
+        }
+        config.proxy = proxyConfig;
+    }
+    return config;
+}
@@ -1,14 +1,80 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { ILoginInfo, IPAICluster } from '@api/v2';
+import { ILoginInfo, IPAICluster, IRetryPolicy } from '@api/v2';
+import { AbortSignalLike } from '@azure/abort-controller';
 import { Util } from '@pai/commom/util';
-import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse, CancelToken, CancelTokenSource } from 'axios';
 import lodash from 'lodash';
 import querystring from 'querystring';
 
 import { paiError } from './errors/paiError';
+import { IPAIMiddleware } from './middlewares';
+import { networkConfigOf } from './networkOptions';
 import { processResponse, IPAIResponseProcessor } from './paiResponseProcessor';
+import { resolveRetryPolicy, retryDelay, shouldRetry } from './retryPolicy';
+
+export type PAIHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
+
+/**
+ * Options of a request, besides the axios options
+ */
+export interface IPAIRequestOptions extends AxiosRequestConfig {
+    retryPolicy?: IRetryPolicy; // override the retry policy of the cluster
+    query?: object; // appended to the url, undefined values are skipped, arrays are serialized as repeated keys
+    processor?: IPAIResponseProcessor; // process the raw (text) response by status code
+    abortSignal?: AbortSignalLike; // cancel the request (and the retries)
+}
+
+/**
+ * Serialize the query into the url with encoding.
+ */
+export function withQuery(url: string, query?: object): string {
+    if (!query) {
+        return url;
+    }
+    const params: URLSearchParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        const values: any[] = Array.isArray(value) ? value : [value];
+        values.filter(v => v !== undefined && v !== null).forEach(
+            v => params.append(key, v instanceof Date ? v.toISOString() : String(v))
+        );
+    }
+    const serialized: string = params.toString();
+    if (!serialized) {
+        return url;
+    }
+    return `${url}${url.includes('?') ? '&' : '?'}${serialized}`;
+}
+
+/**
+ * The cancel token following the abort signal, the listener should be removed after the request is finished.
+ */
+function cancelTokenOf(abortSignal: AbortSignalLike): { token: CancelToken; dispose(): void } {
+    const source: CancelTokenSource = axios.CancelToken.source();
+    const onAbort = () => source.cancel('AbortError: the request is aborted');
+    if (abortSignal.aborted) {
+        onAbort();
+    } else {
+        abortSignal.addEventListener('abort', onAbort);
+    }
+    return { token: source.token, dispose: () => abortSignal.removeEventListener('abort', onAbort) };
+}
+
+/**
+ * Runtime hooks of the token lifecycle of a cluster, which are not persisted with the cluster.
+ */
+export interface ITokenHooks {
+    /**
+     * Provide a new token when the token is missing, expired or rejected (401),
+     * if not set, the client logs in with the username and password of the cluster.
+     */
+    credentialProvider?(cluster: IPAICluster): Promise<string | ILoginInfo>;
+    /**
+     * Called after the token of the cluster is refreshed, e.g. to persist it.
+     */
+    onTokenRefreshed?(cluster: IPAICluster): void | Promise<void>;
+}
 
 /**
  * Http client for PAI rest-server.
@@ -16,10 +82,87 @@ import { processResponse, IPAIResponseProcessor } from './paiResponseProcessor';
 export class PAIHttpClient {
     protected static readonly TIMEOUT: number = 60 * 1000;
     protected static readonly EXPIRATION: number = 4000;
+    protected static readonly EXPIRATION_MARGIN: number = 60 * 1000;
+    // the clients of the same cluster object share the hooks and the ongoing refresh
+    private static readonly tokenHooks: WeakMap<IPAICluster, ITokenHooks> = new WeakMap<IPAICluster, ITokenHooks>();
+    private static readonly refreshing: WeakMap<IPAICluster, Promise<string>> = new WeakMap<IPAICluster, Promise<string>>();
+
     private readonly cluster: IPAICluster;
+    private readonly axios: AxiosInstance;
+    private readonly middlewares: IPAIMiddleware[] = [];
 
     constructor(cluster: IPAICluster) {
         this.cluster = cluster;
+        this.axios = axios.create();
+        this.axios.interceptors.request.use(async (config: AxiosRequestConfig) => {
+            config = { ...config, ...networkConfigOf(this.cluster, config.url!) };
+            for (const middleware of this.middlewares) {
+                if (middleware.onRequest) {
+                    config = await middleware.onRequest(config);
+                }
+            }
+            return config;
+        });
+        this.axios.interceptors.response.use(
+            async (response: AxiosResponse) => {
+                for (const middleware of this.middlewares) {
+                    if (middleware.onResponse) {
+                        response = await middleware.onResponse(response);
+                    }
+                }
+                return response;
+            },
+            async (error: AxiosError) => {
+                for (const middleware of this.middlewares) {
+                    if (middleware.onError) {
+                        try {
+                            await middleware.onError(error);
+                        } catch (replaced) {
+                            error = replaced;
+                        }
+                    }
+                }
+                throw error;
+            }
+        );
+    }
+
+    /**
+     * Set (merge) the token hooks of a cluster.
+     */
+    public static setTokenHooks(cluster: IPAICluster, hooks: ITokenHooks): void {
+        PAIHttpClient.tokenHooks.set(cluster, { ...PAIHttpClient.tokenHooks.get(cluster), ...hooks });
+    }
+
+    /**
+     * Append a middleware to the pipeline of this client.
+     */
+    public use(middleware: IPAIMiddleware): this {
+        this.middlewares.push(middleware);
+        return this;
+    }
+
+    /**
+     * Get a valid token, login (or ask the credential provider) if it is missing or expired.
+     */
+    public async getToken(): Promise<string> {
+        const expireAt: number | undefined = this.cluster.token_expire_at;
+        if (!this.cluster.token || (expireAt && Date.now() > expireAt - PAIHttpClient.EXPIRATION_MARGIN)) {
+            return this.refreshToken();
+        }
+        return this.cluster.token;
+    }
+
+    /**
+     * Get a new token and save it to the cluster, concurrent calls share the same refreshing.
+     */
+    public async refreshToken(): Promise<string> {
+        let refreshing: Promise<string> | undefined = PAIHttpClient.refreshing.get(this.cluster);
+        if (!refreshing) {
+            refreshing = this.fetchToken().finally(() => PAIHttpClient.refreshing.delete(this.cluster));
+            PAIHttpClient.refreshing.set(this.cluster, refreshing);
+        }
+        return refreshing;
     }
 
     /**
@@ -34,7 +177,7 @@ export class PAIHttpClient {
             this.cluster.https
         );
         try {
-            const res: AxiosResponse<ILoginInfo> = await axios.post(
+            const res: AxiosResponse<ILoginInfo> = await this.axios.post(
                 url,
                 querystring.stringify({
                     expiration: expiration || PAIHttpClient.EXPIRATION,
@@ -53,154 +196,149 @@ export class PAIHttpClient {
         }
     }
 
-    public async get<T>(
-        url: string, processor?: IPAIResponseProcessor, options: AxiosRequestConfig = {}, query?: object
-    ): Promise<T> {
+    /**
+     * Send a request to rest-server with the token, and return the (processed) response data.
+     * All the verbs below are routed through it.
+     */
+    public async request<T>(method: PAIHttpMethod, url: string, options: IPAIRequestOptions = {}): Promise<T> {
+        const { retryPolicy, query, processor, abortSignal, ...axiosOptions } = options;
+        const config: AxiosRequestConfig = {
+            ...axiosOptions,
+            method: method,
+            url: withQuery(url, query)
+        };
+        if (processor) {
+            config.responseType = 'text';
+            config.transformResponse = [(data: any) => data];
+        }
+        const cancel: { token: CancelToken; dispose(): void } | undefined = abortSignal && cancelTokenOf(abortSignal);
+        if (cancel) {
+            config.cancelToken = cancel.token;
+        }
         try {
-            if (query) {
-                const qstrings: string[] = [];
-                Object.entries(query).forEach(
-                    ([k, v]) => {
-                        if (v !== undefined) {
-                            qstrings.push(`${k}=${v}`);
-                        }
-                    }
-                );
-                if (qstrings.length > 0) {
-                    url = `${url}?${qstrings.join('&')}`;
-                }
-            }
-            const defaultOptions: AxiosRequestConfig = await this.defaultOptions();
-            if (processor) {
-                const res: AxiosResponse = await axios.get(
-                    url,
-                    lodash.merge(
-                        {
-                            ...<AxiosRequestConfig> {
-                                responseType: 'text',
-                                transformResponse: [(data) => { return data; }]
-                            },
-                            ...defaultOptions
-                        },
-                        options
-                    )
-                );
-                return processResponse(res, processor);
-            } else {
-                const res: AxiosResponse<T> = await axios.get<T>(
-                    url, lodash.merge(defaultOptions, options)
-                );
-                return res.data;
+            const res: AxiosResponse = await this.withRetry(method, retryPolicy, abortSignal, async () => this.withAuth(
+                async (defaultOptions: AxiosRequestConfig) => this.axios.request(lodash.merge(defaultOptions, config))
+            ));
+            if (method === 'HEAD') {
+                return res.headers;
             }
+            return processor ? processResponse(res, processor) : res.data;
         } catch (error) {
             throw paiError(error);
+        } finally {
+            if (cancel) {
+                cancel.dispose();
+            }
         }
     }
 
+    public async get<T>(
+        url: string, processor?: IPAIResponseProcessor, options: IPAIRequestOptions = {}, query?: object
+    ): Promise<T> {
+        return this.request<T>('GET', url, { processor: processor, query: query, ...options });
+    }
+
     public async post<T>(
-        url: string, data: any, processor?: IPAIResponseProcessor, options: AxiosRequestConfig = {}
+        url: string, data: any, processor?: IPAIResponseProcessor, options: IPAIRequestOptions = {}
     ): Promise<T> {
-        try {
-            const defaultOptions: AxiosRequestConfig = await this.defaultOptions();
-            if (processor) {
-                const res: AxiosResponse = await axios.post(
-                    url,
-                    data,
-                    lodash.merge(
-                        {
-                            ...<AxiosRequestConfig> {
-                                responseType: 'text',
-                                transformResponse: [(dat) => { return dat; }]
-                            },
-                            ...defaultOptions
-                        },
-                        options
-                    )
-                );
-                return processResponse(res, processor);
-            } else {
-                const res: AxiosResponse<T> = await axios.post(
-                    url, data, lodash.merge(defaultOptions, options)
-                );
-                return res.data;
-            }
-        } catch (error) {
-            throw paiError(error);
-        }
+        return this.request<T>('POST', url, { processor: processor, data: data, ...options });
     }
 
     public async put<T>(
-        url: string, data: any, processor?: IPAIResponseProcessor, options: AxiosRequestConfig = {}
+        url: string, data: any, processor?: IPAIResponseProcessor, options: IPAIRequestOptions = {}
     ): Promise<T> {
-        try {
-            const defaultOptions: AxiosRequestConfig = await this.defaultOptions();
-            if (processor) {
-                const res: AxiosResponse = await axios.put(
-                    url,
-                    data,
-                    lodash.merge(
-                        {
-                            ...<AxiosRequestConfig> {
-                                responseType: 'text',
-                                transformResponse: [(dat) => { return dat; }]
-                            },
-                            ...defaultOptions
-                        },
-                        options
-                    )
-                );
-                return processResponse(res, processor);
-            } else {
-                const res: AxiosResponse<T> = await axios.put(
-                    url, data, lodash.merge(defaultOptions, options)
-                );
-                return res.data;
-            }
-        } catch (error) {
-            throw paiError(error);
-        }
+        return this.request<T>('PUT', url, { processor: processor, data: data, ...options });
+    }
+
+    public async patch<T>(
+        url: string, data: any, processor?: IPAIResponseProcessor, options: IPAIRequestOptions = {}
+    ): Promise<T> {
+        return this.request<T>('PATCH', url, { processor: processor, data: data, ...options });
     }
 
     public async delete<T>(
-        url: string, processor?: IPAIResponseProcessor, options: AxiosRequestConfig = {}
+        url: string, processor?: IPAIResponseProcessor, options: IPAIRequestOptions = {}
     ): Promise<T> {
-        try {
-            const defaultOptions: AxiosRequestConfig = await this.defaultOptions();
-            if (processor) {
-                const res: AxiosResponse = await axios.delete(
-                    url,
-                    lodash.merge(
-                        {
-                            ...<AxiosRequestConfig> {
-                                responseType: 'text',
-                                transformResponse: [(data) => { return data; }]
-                            },
-                            ...defaultOptions
-                        },
-                        options
-                    )
-                );
-                return processResponse(res, processor);
-            } else {
-                const res: AxiosResponse<T> = await axios.delete(
-                    url, lodash.merge(defaultOptions, options)
-                );
-                return res.data;
-            }
-        } catch (error) {
-            throw paiError(error);
-        }
+        return this.request<T>('DELETE', url, { processor: processor, ...options });
     }
 
-    private async defaultOptions(): Promise<AxiosRequestConfig> {
-        if (!this.cluster.token) {
+    /**
+     * Send a HEAD request and return the response headers.
+     */
+    public async head(url: string, options: IPAIRequestOptions = {}): Promise<{ [name: string]: string }> {
+        return this.request('HEAD', url, options);
+    }
+
+    private async fetchToken(): Promise<string> {
+        const hooks: ITokenHooks = PAIHttpClient.tokenHooks.get(this.cluster) || {};
+        if (hooks.credentialProvider) {
+            const credential: string | ILoginInfo = await hooks.credentialProvider(this.cluster);
+            this.cluster.token = typeof credential === 'string' ? credential : credential.token;
+            delete this.cluster.token_expire_at;
+        } else {
             const info: ILoginInfo = await this.login();
             this.cluster.token = info.token;
+            this.cluster.token_expire_at = Date.now() + PAIHttpClient.EXPIRATION * 1000;
+        }
+        if (hooks.onTokenRefreshed) {
+            await hooks.onTokenRefreshed(this.cluster);
+        }
+        return this.cluster.token;
+    }
+
+    /**
+     * Whether a rejected (401) token could be refreshed.
+     */
+    private canRefresh(): boolean {
+        const hooks: ITokenHooks = PAIHttpClient.tokenHooks.get(this.cluster) || {};
+        return !!hooks.credentialProvider || !!this.cluster.password;
+    }
+
+    /**
+     * Send the request and retry on transient failures according to the retry policy
+     * (of the cluster, overridden by the one of the request).
+     */
+    private async withRetry<T>(
+        method: string, retryPolicy: IRetryPolicy | undefined, abortSignal: AbortSignalLike | undefined, send: () => Promise<T>
+    ): Promise<T> {
+        const policy: Required<IRetryPolicy> = resolveRetryPolicy(this.cluster.retry_policy, retryPolicy);
+        for (let attempt: number = 1; ; attempt++) {
+            try {
+                return await send();
+            } catch (error) {
+                const aborted: boolean = !!abortSignal && abortSignal.aborted;
+                if (aborted || attempt >= policy.max_attempts || !shouldRetry(method, error, policy)) {
+                    throw error;
+                }
+                Util.debug(`retry ${method} request (attempt ${attempt + 1}) after error: ${error.message}`);
+                await Util.delay(retryDelay(attempt, error, policy));
+            }
+        }
+    }
+
+    /**
+     * Send the request with the default options, if the token is rejected (401),
+     * refresh the token and retry it once.
+     */
+    private async withAuth<T>(send: (defaultOptions: AxiosRequestConfig) => Promise<T>): Promise<T> {
+        const token: string = await this.getToken();
+        try {
+            return await send(this.defaultOptions(token));
+        } catch (error) {
+            if (!error.response || error.response.status !== 401 || !this.canRefresh()) {
+                throw error;
+            }
+            // another request may have refreshed the token already
+            // tslint:disable-next-line:possible-timing-attack
+            const newToken: string = this.cluster.token !== token ? this.cluster.token! : await this.refreshToken();
+            return send(this.defaultOptions(newToken));
         }
+    }
 
+    private defaultOptions(token: string): AxiosRequestConfig {
         return {
             headers: {
-                Authorization: `Bearer ${this.cluster.token}`,
+                Authorization: `Bearer ${token}`,
                 'content-type': 'application/json'
             },
             timeout: this.cluster.request_timeout || PAIHttpClient.TIMEOUT
@@ -0,0 +1,55 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IRetryPolicy } from '@api/v2';
+import { AxiosError } from 'axios';
+import * as crypto from 'crypto';
+
+/**
+ * The default retry policy of transient failures.
+ */
+export const DEFAULT_RETRY_POLICY: Required<IRetryPolicy> = {
+    max_attempts: 3,
+    initial_delay: 500,
+    max_delay: 10000,
+    status_codes: [408, 429, 500, 502, 503, 504],
+    error_codes: ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'],
+    retry_non_idempotent: false
+};
+
+const IDEMPOTENT_METHODS: string[] = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * merge the policies, the later ones override the former ones
+ */
+export function resolveRetryPolicy(...policies: (IRetryPolicy | undefined)[]): Required<IRetryPolicy> {
+    return Object.assign({}, DEFAULT_RETRY_POLICY, ...policies.filter(p => p));
+}
+
+/**
+ * whether the failed request should be retried according to the policy
+ */
+export function shouldRetry(method: string, error: AxiosError, policy: Required<IRetryPolicy>): boolean {
+    if (!policy.retry_non_idempotent && !IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+        return false;
+    }
+    if (error.response) {
+        return policy.status_codes.includes(error.response.status);
+    }
+    return !!error.code && policy.error_codes.includes(error.code);
+}
+
+/**
+ * the delay (in milliseconds) before the next attempt, which is exponential with jitter,
+ * or as the Retry-After header (in seconds) if responded
+ */
+export function retryDelay(attempt: number, error: AxiosError, policy: Required<IRetryPolicy>): number {
+    const retryAfter: number = error.response && error.response.headers ?
+        Number(error.response.headers['retry-after']) : NaN;
+    if (!isNaN(retryAfter)) {
+        return Math.min(retryAfter * 1000, policy.max_delay);
+    }
+    const delay: number = Math.min(policy.initial_delay * Math.pow(2, attempt - 1), policy.max_delay);
+    const random: number = crypto.randomBytes(4).readUInt32BE(0) / 0xffffffff;
+    return delay / 2 + random * delay / 2;
+}
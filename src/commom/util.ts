@@ -27,6 +27,40 @@ class UtilClass {
         return url;
     }
 
+    /**
+     * map items with an async function, running at most `limit` calls at the same time,
+     * no more items are started after a call is rejected
+     */
+    public async mapLimit<T, R>(items: T[], limit: number, func: (item: T, index: number) => Promise<R>): Promise<R[]> {
+        const results: R[] = new Array(items.length);
+        let next: number = 0;
+        let failed: boolean = false;
+        const worker = async () => {
+            while (!failed && next < items.length) {
+                const idx: number = next++;
+                try {
+                    results[idx] = await func(items[idx], idx);
+                } catch (err) {
+                    failed = true;
+                    throw err;
+                }
+            }
+        };
+        const workers: Promise<void>[] = [];
+        for (let i: number = 0; i < Math.min(Math.max(limit, 1), items.length); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+        return results;
+    }
+
+    /**
+     * resolve after `ms` milliseconds
+     */
+    public async delay(ms: number): Promise<void> {
+        return new Promise<void>((resolve: () => void) => setTimeout(resolve, ms));
+    }
+
     public debug(msg?: string, obj?: object): void {
         if (!this.debugMode) {
             return;
@@ -3,11 +3,16 @@
 
 import * as PAIV1 from './api/v1';
 import * as PAIV2 from './api/v2';
+import * as PAIErrors from './commom/errors';
+import { ProtocolV1, ProtocolV2 } from './protocol';
 
 /**
  * Export
  */
 export {
     PAIV1,
-    PAIV2
+    PAIV2,
+    PAIErrors,
+    ProtocolV1,
+    ProtocolV2
 };
@@ -0,0 +1,287 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+// tslint:disable: max-classes-per-file
+import { IJobConfig } from './jobConfig';
+import { JOB_NAME_PATTERN, NAME_PATTERN } from './schema';
+import { validateJobConfig, IJobConfigError, JobConfigValidationError } from './validation';
+
+type Prerequisite = NonNullable<IJobConfig['prerequisites']>[number];
+type TaskRole = IJobConfig['taskRoles'][string];
+type PrerequisiteType = 'dockerimage' | 'data' | 'output' | 'script';
+
+function checkName(kind: string, name: string, pattern: string): void {
+    if (!new RegExp(pattern).test(name)) {
+        throw new Error(`InvalidName: ${kind} ${JSON.stringify(name)} should match ${pattern}`);
+    }
+}
+
+/**
+ * Build a task role, the default resource is 1 instance with 1 CPU, 1024 MB memory and no GPU.
+ */
+export class TaskRoleBuilder {
+    private readonly taskRole: TaskRole;
+    private readonly addPrerequisite: (type: PrerequisiteType, name: string, uri?: string | string[]) => void;
+
+    constructor(addPrerequisite: (type: PrerequisiteType, name: string, uri?: string | string[]) => void) {
+        this.addPrerequisite = addPrerequisite;
+        this.taskRole = {
+            instances: 1,
+            dockerImage: '',
+            resourcePerInstance: { cpu: 1, memoryMB: 1024, gpu: 0 },
+            commands: []
+        };
+    }
+
+    public instances(instances: number): this {
+        this.taskRole.instances = instances;
+        return this;
+    }
+
+    public cpu(cpu: number): this {
+        this.taskRole.resourcePerInstance.cpu = cpu;
+        return this;
+    }
+
+    public gpu(gpu: number): this {
+        this.taskRole.resourcePerInstance.gpu = gpu;
+        return this;
+    }
+
+    public memoryMB(memoryMB: number): this {
+        this.taskRole.resourcePerInstance.memoryMB = memoryMB;
+        return this;
+    }
+
+    public shmMB(shmMB: number): this {
+        this.taskRole.extraContainerOptions = { ...this.taskRole.extraContainerOptions, shmMB: shmMB };
+        return this;
+    }
+
+    /**
+     * declare the ports of each instance, which are referenced by the label
+     */
+    public port(label: string, count: number = 1): this {
+        checkName('port label', label, NAME_PATTERN);
+        this.taskRole.resourcePerInstance.ports = { ...this.taskRole.resourcePerInstance.ports, [label]: count };
+        return this;
+    }
+
+    /**
+     * append the commands
+     */
+    public command(...commands: string[]): this {
+        this.taskRole.commands.push(...commands);
+        return this;
+    }
+
+    public taskRetryCount(count: number): this {
+        this.taskRole.taskRetryCount = count;
+        return this;
+    }
+
+    public completion(minFailedInstances?: number, minSucceededInstances?: number): this {
+        this.taskRole.completion = {};
+        if (minFailedInstances !== undefined) {
+            this.taskRole.completion.minFailedInstances = minFailedInstances;
+        }
+        if (minSucceededInstances !== undefined) {
+            this.taskRole.completion.minSucceededInstances = minSucceededInstances;
+        }
+        return this;
+    }
+
+    /**
+     * use a docker image, which is added to the prerequisites if the uri is given, otherwise it should be added already
+     */
+    public image(name: string, uri?: string): this {
+        this.addPrerequisite('dockerimage', name, uri);
+        this.taskRole.dockerImage = name;
+        return this;
+    }
+
+    /**
+     * select the data, which is referenced as `$data` in this task role
+     */
+    public data(name: string, uri?: string | string[]): this {
+        this.addPrerequisite('data', name, uri);
+        this.taskRole.data = name;
+        return this;
+    }
+
+    /**
+     * select the output, which is referenced as `$output` in this task role
+     */
+    public output(name: string, uri?: string): this {
+        this.addPrerequisite('output', name, uri);
+        this.taskRole.output = name;
+        return this;
+    }
+
+    /**
+     * select the script, which is referenced as `$script` in this task role
+     */
+    public script(name: string, uri?: string): this {
+        this.addPrerequisite('script', name, uri);
+        this.taskRole.script = name;
+        return this;
+    }
+
+    public build(): TaskRole {
+        return this.taskRole;
+    }
+}
+
+/**
+ * Build a job config fluently, e.g.
+ * `JobBuilder.create('mnist').image('pytorch', uri).taskRole('worker', r => r.gpu(1).command('python train.py')).build()`.
+ * The task roles without an image use the first one, and the built job config is validated.
+ */
+export class JobBuilder {
+    private readonly config: IJobConfig;
+
+    private constructor(name: string) {
+        checkName('job name', name, JOB_NAME_PATTERN);
+        this.config = {
+            protocolVersion: 2,
+            name: name,
+            type: 'job',
+            prerequisites: [],
+            taskRoles: {}
+        };
+    }
+
+    public static create(name: string): JobBuilder {
+        return new JobBuilder(name);
+    }
+
+    public description(description: string): this {
+        this.config.description = description;
+        return this;
+    }
+
+    /**
+     * add a docker image to the prerequisites
+     */
+    public image(name: string, uri: string, auth?: Prerequisite['auth']): this {
+        this.addPrerequisite('dockerimage', name, uri);
+        if (auth) {
+            this.config.prerequisites!.find(p => p.type === 'dockerimage' && p.name === name)!.auth = auth;
+        }
+        return this;
+    }
+
+    public data(name: string, uri: string | string[]): this {
+        this.addPrerequisite('data', name, uri);
+        return this;
+    }
+
+    public output(name: string, uri: string): this {
+        this.addPrerequisite('output', name, uri);
+        return this;
+    }
+
+    public script(name: string, uri: string): this {
+        this.addPrerequisite('script', name, uri);
+        return this;
+    }
+
+    /**
+     * set a parameter, which is referenced as `<% $parameters.key %>`
+     */
+    public parameter(key: string, value: any): this {
+        this.config.parameters = { ...this.config.parameters, [key]: value };
+        return this;
+    }
+
+    /**
+     * set a secret, which is referenced as `<% $secrets.key %>`
+     */
+    public secret(key: string, value: string): this {
+        this.config.secrets = { ...this.config.secrets, [key]: value };
+        return this;
+    }
+
+    /**
+     * add (or replace) a task role
+     */
+    public taskRole(name: string, configure: (builder: TaskRoleBuilder) => TaskRoleBuilder | void): this {
+        checkName('task role', name, NAME_PATTERN);
+        const builder: TaskRoleBuilder = new TaskRoleBuilder(
+            (type: PrerequisiteType, prerequisite: string, uri?: string | string[]) => {
+                this.addPrerequisite(type, prerequisite, uri);
+            }
+        );
+        configure(builder);
+        this.config.taskRoles[name] = builder.build();
+        return this;
+    }
+
+    /**
+     * add a deployment, which runs the preCommands and postCommands around the commands of the task roles
+     */
+    public deployment(
+        name: string, taskRoles: { [taskRole: string]: { preCommands?: string[], postCommands?: string[] } }
+    ): this {
+        const deployment: NonNullable<IJobConfig['deployments']>[number] = { name: name, taskRoles: {} };
+        for (const [taskRole, hooks] of Object.entries(taskRoles)) {
+            deployment.taskRoles[taskRole] = { preCommands: hooks.preCommands || [], postCommands: hooks.postCommands || [] };
+        }
+        this.config.deployments = [...(this.config.deployments || []).filter(d => d.name !== name), deployment];
+        return this;
+    }
+
+    public virtualCluster(virtualCluster: string): this {
+        this.config.defaults = { ...this.config.defaults, virtualCluster: virtualCluster };
+        return this;
+    }
+
+    public defaultDeployment(deployment: string): this {
+        this.config.defaults = { ...this.config.defaults, deployment: deployment };
+        return this;
+    }
+
+    public jobRetryCount(count: number): this {
+        this.config.jobRetryCount = count;
+        return this;
+    }
+
+    public extras(extras: IJobConfig['extras']): this {
+        this.config.extras = { ...this.config.extras, ...extras };
+        return this;
+    }
+
+    /**
+     * build the job config, JobConfigValidationError is thrown if it is invalid
+     */
+    public build(): IJobConfig {
+        const config: IJobConfig = JSON.parse(JSON.stringify(this.config));
+        const image: Prerequisite | undefined = (config.prerequisites || []).find(p => p.type === 'dockerimage');
+        for (const role of Object.values(config.taskRoles)) {
+            if (!role.dockerImage && image) {
+                role.dockerImage = image.name;
+            }
+        }
+        const errors: IJobConfigError[] = validateJobConfig(config);
+        if (errors.length > 0) {
+            throw new JobConfigValidationError(errors);
+        }
+        return config;
+    }
+
+    /**
+     * add the prerequisite if the uri is given, it should be the same as the existing one of the same name and type
+     */
+    private addPrerequisite(type: PrerequisiteType, name: string, uri?: string | string[]): void {
+        const existing: Prerequisite | undefined = this.config.prerequisites!.find(p => p.type === type && p.name === name);
+        if (uri === undefined) {
+            if (!existing) {
+                throw new Error(`NoPrerequisite: ${type} ${name} is not added`);
+            }
+        } else if (!existing) {
+            this.config.prerequisites!.push({ name: name, type: type, uri: uri });
+        } else if (JSON.stringify(existing.uri) !== JSON.stringify(uri)) {
+            throw new Error(`ConflictPrerequisite: ${type} ${name} is added with another uri`);
+        }
+    }
+}
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IJobConfig as IJobConfigV1 } from '@protocol/v1';
+
+import { IJobConfig } from './jobConfig';
+import { jsonPathOf } from './validation';
+
+/**
+ * Something in the v1 job config cannot be mapped exactly, the path is the JSON path in the v1 job config.
+ */
+export interface IConversionIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * The converted job config, and the issues of the conversion.
+ */
+export interface IConversionResult {
+    config: IJobConfig;
+    issues: IConversionIssue[];
+}
+
+export const V1_DOCKER_IMAGE: string = 'docker_image';
+
+// the directories of v1 job config, which were exported as environment variables
+const V1_DIRECTORIES: { [key: string]: string } = {
+    codeDir: 'PAI_CODE_DIR',
+    dataDir: 'PAI_DATA_DIR',
+    outputDir: 'PAI_OUTPUT_DIR'
+};
+
+type TaskRoleV1 = IJobConfigV1['taskRoles'][number] & { [key: string]: any };
+type TaskRole = IJobConfig['taskRoles'][string];
+
+/**
+ * the command to export an environment variable, the value is single quoted against the shell expansion
+ */
+function exportCommandOf(env: string, value: string): string {
+    return `export ${env}='${value.replace(/'/g, '\'\\\'\'')}'`;
+}
+
+function convertTaskRole(
+    role: TaskRoleV1, path: (string | number)[], envs: { [name: string]: string }, issues: IConversionIssue[]
+): { taskRole: TaskRole, extras: { [key: string]: any } } {
+    const { name, taskNumber, cpuNumber, gpuNumber, memoryMB, command, shmMB, portList,
+        minFailedTaskCount, minSucceededTaskCount, ...others } = role;
+    const taskRole: TaskRole = {
+        instances: taskNumber,
+        dockerImage: V1_DOCKER_IMAGE,
+        resourcePerInstance: { cpu: cpuNumber, memoryMB: memoryMB, gpu: gpuNumber },
+        commands: [...Object.entries(envs).map(([env, value]) => exportCommandOf(env, value)), command]
+    };
+    if (shmMB !== undefined) {
+        taskRole.extraContainerOptions = { shmMB: shmMB };
+    }
+    if (minFailedTaskCount !== undefined) {
+        taskRole.completion = { minFailedInstances: minFailedTaskCount };
+    }
+    if (minSucceededTaskCount !== undefined) {
+        taskRole.completion = { ...taskRole.completion, minSucceededInstances: minSucceededTaskCount };
+    }
+    if (portList) {
+        taskRole.resourcePerInstance.ports = {};
+        (portList as { label: string, beginAt?: number, portNumber: number }[]).forEach((port, index) => {
+            taskRole.resourcePerInstance.ports![port.label] = port.portNumber;
+            if (port.beginAt) {
+                issues.push({
+                    path: jsonPathOf([...path, 'portList', index, 'beginAt']),
+                    message: 'is not supported, the ports are allocated dynamically'
+                });
+            }
+        });
+    }
+    for (const key of Object.keys(others)) {
+        issues.push({ path: jsonPathOf([...path, key]), message: `is not mapped, kept in extras.v1.taskRoles.${name}` });
+    }
+    return { taskRole: taskRole, extras: others };
+}
+
+/**
+ * Convert a v1 job config to v2.
+ * The image is the prerequisite `docker_image`, the directories and jobEnvs are the parameters
+ * (exported as the environment variables before the command), and the unknown keys are kept in extras.
+ */
+export function convertFromV1(v1: IJobConfigV1): IConversionResult {
+    const { jobName, image, authFile, virtualCluster, retryCount, jobEnvs, taskRoles, extras, ...others } = v1;
+    const issues: IConversionIssue[] = [];
+    const config: IJobConfig = {
+        protocolVersion: 2,
+        name: jobName,
+        type: 'job',
+        prerequisites: [{ name: V1_DOCKER_IMAGE, type: 'dockerimage', uri: image }],
+        taskRoles: {}
+    };
+    const parameters: { [key: string]: any } = {};
+    const envs: { [name: string]: string } = {};
+    for (const [key, env] of Object.entries(V1_DIRECTORIES)) {
+        if (others[key] !== undefined) {
+            parameters[key] = others[key];
+            envs[env] = `<% $parameters.${key} %>`;
+            issues.push({
+                path: jsonPathOf([key]),
+                message: `is kept in parameters.${key} and exported as $${env}, but it is not prepared in the container`
+            });
+            delete others[key];
+        }
+    }
+    for (const [env, value] of Object.entries(jobEnvs || {})) {
+        parameters[env] = value;
+        envs[env] = `<% $parameters.${env} %>`;
+        if (String(value).includes('\'')) {
+            issues.push({
+                path: jsonPathOf(['jobEnvs', env]),
+                message: `contains single quotes, which should be escaped to be exported as $${env}`
+            });
+        }
+    }
+    if (Object.keys(parameters).length > 0) {
+        config.parameters = parameters;
+    }
+    if (authFile !== undefined) {
+        issues.push({
+            path: '$.authFile',
+            message: 'is not mapped, set prerequisites[0].auth with the credentials in secrets instead'
+        });
+    }
+    if (virtualCluster !== undefined) {
+        config.defaults = { virtualCluster: virtualCluster };
+    }
+    if (retryCount !== undefined) {
+        config.jobRetryCount = retryCount;
+    }
+
+    const extrasV1: { [key: string]: any } = { ...others };
+    (taskRoles || []).forEach((role: TaskRoleV1, index: number) => {
+        const converted: { taskRole: TaskRole, extras: { [key: string]: any } } = convertTaskRole(
+            role, ['taskRoles', index], envs, issues
+        );
+        config.taskRoles[role.name] = converted.taskRole;
+        if (Object.keys(converted.extras).length > 0) {
+            extrasV1.taskRoles = { ...extrasV1.taskRoles, [role.name]: converted.extras };
+        }
+    });
+    for (const key of Object.keys(others)) {
+        issues.push({ path: jsonPathOf([key]), message: 'is not mapped, kept in extras.v1' });
+    }
+    if (extras !== undefined || Object.keys(extrasV1).length > 0) {
+        config.extras = Object.keys(extrasV1).length > 0 ? { ...extras, v1: extrasV1 } : { ...extras };
+    }
+    return { config: config, issues: issues };
+}
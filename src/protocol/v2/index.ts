@@ -1,11 +1,32 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import { JobBuilder, TaskRoleBuilder } from './builder';
+import { convertFromV1, IConversionIssue, IConversionResult, V1_DOCKER_IMAGE } from './convert';
 import { IJobConfig } from './jobConfig';
+import { renderJobConfig, IRenderedTaskRole, IRenderOptions, SECRET_MASK } from './render';
+import { jobConfigSchema } from './schema';
+import { checkJobConfig, validateJobConfig, IJobConfigCheckResult, IJobConfigError, JobConfigValidationError } from './validation';
 
 /**
  * Export
  */
 export {
-    IJobConfig
+    IJobConfig,
+    IJobConfigError,
+    JobConfigValidationError,
+    jobConfigSchema,
+    validateJobConfig,
+    checkJobConfig,
+    IJobConfigCheckResult,
+    IRenderOptions,
+    IRenderedTaskRole,
+    SECRET_MASK,
+    renderJobConfig,
+    IConversionIssue,
+    IConversionResult,
+    V1_DOCKER_IMAGE,
+    convertFromV1,
+    JobBuilder,
+    TaskRoleBuilder
 };
@@ -168,5 +168,6 @@ export interface IJobConfig {
     /** Optional, extra field, object, save any information that plugin may use. */
     extras?: {
         submitFrom?: string;
+        [key: string]: any;
     };
 }
@@ -0,0 +1,93 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IJobConfig } from './jobConfig';
+
+/**
+ * Options of rendering a job config.
+ */
+export interface IRenderOptions {
+    deployment?: string; // default is the deployment in defaults (if any)
+    showSecrets?: boolean; // the secrets are masked by default
+}
+
+/**
+ * The effective settings of a task role, with the references rendered.
+ */
+export interface IRenderedTaskRole {
+    dockerImage?: string; // the uri of the docker image
+    commands: string[]; // including the preCommands and postCommands of the deployment
+    unresolved: string[]; // the references cannot be resolved, which are kept as is
+}
+
+export const SECRET_MASK: string = '******';
+
+// e.g. <% $parameters.modelPath %>, <% $data.uri[0] %>
+const REFERENCE: RegExp = /<%\s*\$(parameters|secrets|data|output|script)((?:\.[A-Za-z0-9_\-~]+|\[\d+\])*)\s*%>/g;
+
+type Scope = { [name: string]: any };
+
+function resolve(scope: Scope, root: string, path: string): any {
+    let value: any = scope[root];
+    for (const key of path.match(/[^.[\]]+/g) || []) {
+        if (value === undefined || value === null) {
+            return undefined;
+        }
+        value = value[key];
+    }
+    return value;
+}
+
+function render(text: string, scope: Scope, secretMask: string | undefined, unresolved: string[]): string {
+    return text.replace(REFERENCE, (reference: string, root: string, path: string) => {
+        const value: any = resolve(scope, root, path);
+        if (value === undefined) {
+            unresolved.push(reference);
+            return reference;
+        }
+        if (root === 'secrets' && secretMask !== undefined) {
+            return secretMask;
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+}
+
+/**
+ * Render the references in the commands of each task role.
+ * `$parameters` and `$secrets` are shared by all task roles, while `$data`, `$output` and `$script`
+ * are the prerequisites selected by the task role, which are only valid inside it.
+ */
+export function renderJobConfig(config: IJobConfig, opts: IRenderOptions = {}): { [taskRole: string]: IRenderedTaskRole } {
+    const deploymentName: string | undefined = opts.deployment || (config.defaults && config.defaults.deployment);
+    const deployment: NonNullable<IJobConfig['deployments']>[number] | undefined = deploymentName ?
+        (config.deployments || []).find(d => d.name === deploymentName) : undefined;
+    if (deploymentName && !deployment) {
+        throw new Error(`NoDeployment: ${deploymentName} is not in the deployments`);
+    }
+    const prerequisiteOf = (type: string, name?: string) => name === undefined ? undefined :
+        (config.prerequisites || []).find(p => p.type === type && p.name === name);
+    const secretMask: string | undefined = opts.showSecrets ? undefined : SECRET_MASK;
+
+    const result: { [taskRole: string]: IRenderedTaskRole } = {};
+    for (const [name, role] of Object.entries(config.taskRoles)) {
+        const scope: Scope = {
+            parameters: config.parameters,
+            secrets: config.secrets,
+            data: prerequisiteOf('data', role.data),
+            output: prerequisiteOf('output', role.output),
+            script: prerequisiteOf('script', role.script)
+        };
+        const hooks: { preCommands?: string[], postCommands?: string[] } =
+            deployment && deployment.taskRoles[name] || {};
+        const unresolved: string[] = [];
+        const image: any = prerequisiteOf('dockerimage', role.dockerImage);
+        result[name] = {
+            dockerImage: image ? String(image.uri) : undefined,
+            commands: [...(hooks.preCommands || []), ...role.commands, ...(hooks.postCommands || [])].map(
+                command => render(command, scope, secretMask, unresolved)
+            ),
+            unresolved: unresolved
+        };
+    }
+    return result;
+}
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+// the names of task roles and port labels
+export const NAME_PATTERN: string = '^[A-Za-z0-9\\-._~]+$';
+export const JOB_NAME_PATTERN: string = '^[a-zA-Z0-9_-]+$';
+
+const commands: object = {
+    type: 'array',
+    items: { type: 'string' }
+};
+
+const prerequisite: object = {
+    type: 'object',
+    properties: {
+        protocolVersion: { enum: [2, '2'] },
+        name: { type: 'string', minLength: 1 },
+        type: { enum: ['data', 'script', 'dockerimage', 'output'] },
+        version: { type: ['string', 'number'] },
+        contributor: { type: 'string' },
+        description: { type: 'string' },
+        auth: {
+            type: 'object',
+            properties: {
+                username: { type: 'string' },
+                password: { type: 'string' },
+                registryuri: { type: 'string' }
+            },
+            additionalProperties: false
+        },
+        uri: {
+            oneOf: [
+                { type: 'string' },
+                { type: 'array', items: { type: 'string' } }
+            ]
+        }
+    },
+    required: ['name', 'type', 'uri'],
+    additionalProperties: false
+};
+
+const taskRole: object = {
+    type: 'object',
+    properties: {
+        instances: { type: 'integer', minimum: 1 },
+        completion: {
+            type: 'object',
+            properties: {
+                minFailedInstances: { type: ['integer', 'string', 'null'], minimum: 1 },
+                minSucceededInstances: { type: ['integer', 'string', 'null'], minimum: 1 }
+            },
+            additionalProperties: false
+        },
+        taskRetryCount: { type: 'integer', minimum: 0 },
+        dockerImage: { type: 'string' },
+        data: { type: 'string' },
+        output: { type: 'string' },
+        script: { type: 'string' },
+        extraContainerOptions: {
+            type: 'object',
+            properties: {
+                shmMB: { type: 'integer', minimum: 0 },
+                infiniband: { type: 'boolean' }
+            },
+            additionalProperties: false
+        },
+        resourcePerInstance: {
+            type: 'object',
+            properties: {
+                cpu: { type: 'integer', minimum: 1 },
+                memoryMB: { type: 'integer', minimum: 100 },
+                gpu: { type: 'integer', minimum: 0 },
+                ports: {
+                    type: 'object',
+                    patternProperties: {
+                        [NAME_PATTERN]: { type: 'integer', minimum: 0 }
+                    },
+                    additionalProperties: false
+                }
+            },
+            required: ['cpu', 'memoryMB', 'gpu'],
+            additionalProperties: false
+        },
+        commands: { ...commands, minItems: 1 }
+    },
+    required: ['dockerImage', 'resourcePerInstance', 'commands'],
+    additionalProperties: false
+};
+
+const deployment: object = {
+    type: 'object',
+    properties: {
+        name: { type: 'string', minLength: 1 },
+        taskRoles: {
+            type: 'object',
+            patternProperties: {
+                [NAME_PATTERN]: {
+                    type: 'object',
+                    properties: {
+                        preCommands: commands,
+                        postCommands: commands
+                    },
+                    additionalProperties: false
+                }
+            },
+            additionalProperties: false
+        }
+    },
+    required: ['name', 'taskRoles'],
+    additionalProperties: false
+};
+
+/**
+ * The JSON schema of OpenPAI job protocol v2.
+ * https://github.com/microsoft/openpai-protocol/blob/master/schemas/v2/schema.yaml
+ * The fields unknown to this copy (`additionalProperties`) are warnings rather than errors, see checkJobConfig.
+ */
+export const jobConfigSchema: object = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    properties: {
+        protocolVersion: { enum: [2, '2'] },
+        name: { type: 'string', pattern: JOB_NAME_PATTERN },
+        type: { enum: ['job'] },
+        version: { type: ['string', 'number'] },
+        contributor: { type: 'string' },
+        description: { type: 'string' },
+        prerequisites: { type: 'array', items: prerequisite },
+        parameters: { type: 'object' },
+        secrets: { type: 'object' },
+        jobRetryCount: { type: 'integer', minimum: 0 },
+        taskRoles: {
+            type: 'object',
+            minProperties: 1,
+            patternProperties: {
+                [NAME_PATTERN]: taskRole
+            },
+            additionalProperties: false
+        },
+        deployments: { type: 'array', items: deployment },
+        defaults: {
+            type: 'object',
+            properties: {
+                virtualCluster: { type: 'string' },
+                deployment: { type: 'string' }
+            },
+            additionalProperties: false
+        },
+        extras: { type: 'object' }
+    },
+    required: ['protocolVersion', 'name', 'type', 'taskRoles'],
+    additionalProperties: false
+};
@@ -0,0 +1,151 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import ajv, { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+
+import { IJobConfig } from './jobConfig';
+import { jobConfigSchema } from './schema';
+
+/**
+ * A violation of the job protocol, the path is a JSON path, e.g. `$.taskRoles.worker.dockerImage`.
+ */
+export interface IJobConfigError {
+    path: string;
+    message: string;
+}
+
+/**
+ * The errors and warnings of a job config, the unknown fields are warnings since the schema may lag behind the protocol.
+ */
+export interface IJobConfigCheckResult {
+    errors: IJobConfigError[];
+    warnings: IJobConfigError[];
+}
+
+/**
+ * The job config is invalid, which is thrown before submitting it.
+ */
+export class JobConfigValidationError extends Error {
+    public errors: IJobConfigError[];
+
+    constructor(errors: IJobConfigError[]) {
+        super(`InvalidJobConfig: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}`);
+        this.name = new.target.name;
+        this.errors = errors;
+    }
+}
+
+// the fields of a task role which reference the prerequisites, and the prerequisite types
+const REFERENCE_TYPES: { [field: string]: string } = {
+    dockerImage: 'dockerimage',
+    data: 'data',
+    output: 'output',
+    script: 'script'
+};
+
+let validateSchema: ValidateFunction | undefined;
+
+/**
+ * the JSON path of the keys, e.g. `$.taskRoles.worker.commands[0]`
+ */
+export function jsonPathOf(keys: (string | number)[]): string {
+    return '$' + keys.map(key => {
+        if (typeof key === 'number') {
+            return `[${key}]`;
+        }
+        return /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `['${key}']`;
+    }).join('');
+}
+
+function keysOf(pointer: string, property?: string): (string | number)[] {
+    const keys: (string | number)[] = pointer.split('/').slice(1).map(
+        key => /^\d+$/.test(key) ? Number(key) : key.replace(/~1/g, '/').replace(/~0/g, '~')
+    );
+    return property === undefined ? keys : [...keys, property];
+}
+
+// an unknown field of an object, rather than a key of a map (e.g. task roles) not matching the name pattern
+function isUnknownField(error: ErrorObject): boolean {
+    return error.keyword === 'additionalProperties' && !(error.parentSchema as any).patternProperties;
+}
+
+function schemaErrorOf(error: ErrorObject): IJobConfigError {
+    const params: any = error.params;
+    switch (error.keyword) {
+        case 'required':
+            return { path: jsonPathOf(keysOf(error.dataPath, params.missingProperty)), message: 'is required' };
+        case 'additionalProperties':
+            return {
+                path: jsonPathOf(keysOf(error.dataPath, params.additionalProperty)),
+                message: isUnknownField(error) ? 'is unknown to the job protocol' : 'is not allowed'
+            };
+        case 'enum':
+            return { path: jsonPathOf(keysOf(error.dataPath)), message: `should be one of ${JSON.stringify(params.allowedValues)}` };
+        default:
+            return { path: jsonPathOf(keysOf(error.dataPath)), message: error.message || error.keyword };
+    }
+}
+
+function referenceErrorsOf(config: IJobConfig): IJobConfigError[] {
+    const errors: IJobConfigError[] = [];
+    const prerequisites: { name: string, type: string }[] = config.prerequisites || [];
+    for (const [name, role] of Object.entries(config.taskRoles)) {
+        for (const [field, type] of Object.entries(REFERENCE_TYPES)) {
+            const reference: string | undefined = (role as any)[field];
+            if (reference !== undefined && !prerequisites.some(p => p.name === reference && p.type === type)) {
+                errors.push({
+                    path: jsonPathOf(['taskRoles', name, field]),
+                    message: `should reference a prerequisite of type ${type}, but ${reference} is not found`
+                });
+            }
+        }
+    }
+    const deployments: NonNullable<IJobConfig['deployments']> = config.deployments || [];
+    deployments.forEach((deployment, index) => {
+        for (const name of Object.keys(deployment.taskRoles)) {
+            if (!(name in config.taskRoles)) {
+                errors.push({
+                    path: jsonPathOf(['deployments', index, 'taskRoles', name]),
+                    message: `should reference a task role, but ${name} is not found`
+                });
+            }
+        }
+    });
+    const deploymentName: string | undefined = config.defaults && config.defaults.deployment;
+    if (deploymentName !== undefined && !deployments.some(d => d.name === deploymentName)) {
+        errors.push({
+            path: '$.defaults.deployment',
+            message: `should reference a deployment, but ${deploymentName} is not found`
+        });
+    }
+    return errors;
+}
+
+/**
+ * Check the job config against the protocol schema and the references (to the prerequisites, task roles and deployments).
+ * The unknown fields are reported as warnings, which are passed to the server as is.
+ */
+export function checkJobConfig(config: IJobConfig): IJobConfigCheckResult {
+    if (!validateSchema) {
+        const instance: Ajv = new ajv({ allErrors: true, jsonPointers: true, verbose: true });
+        validateSchema = instance.compile(jobConfigSchema);
+    }
+    const result: IJobConfigCheckResult = { errors: [], warnings: [] };
+    if (!validateSchema(config)) {
+        for (const error of validateSchema.errors || []) {
+            (isUnknownField(error) ? result.warnings : result.errors).push(schemaErrorOf(error));
+        }
+    }
+    // the references are not checked until the structure is valid
+    if (result.errors.length === 0) {
+        result.errors = referenceErrorsOf(config);
+    }
+    return result;
+}
+
+/**
+ * Validate the job config, an empty list is returned if it is valid (the unknown fields are allowed).
+ */
+export function validateJobConfig(config: IJobConfig): IJobConfigError[] {
+    return checkJobConfig(config).errors;
+}
@@ -1,20 +1,32 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import { INetworkOptions } from '@api/v2/models/cluster';
+import { ProxySettings, TransferProgressEvent } from '@azure/core-http';
 import { PagedAsyncIterableIterator } from '@azure/core-paging';
 import {
+    BlobDownloadResponseModel,
     BlobGetPropertiesResponse,
     BlobItem,
     BlobPrefix,
     BlobServiceClient,
     BlockBlobClient,
+    BlockBlobGetBlockListResponse,
     ContainerClient,
     ContainerListBlobHierarchySegmentResponse,
+    StoragePipelineOptions,
     StorageSharedKeyCredential
 } from '@azure/storage-blob';
+import { proxyOf } from '@pai/commom/networkOptions';
+import { Util } from '@pai/commom/util';
+import * as fs from 'fs-extra';
 import * as Path from 'path';
 
-import { IFileInfo, IStorageNodeClient } from '../models/storageOperation';
+import {
+    IFileInfo, IFolderOptions, IReadStreamOptions, IStorageNodeClient, ITransferOptions
+} from '../models/storageOperation';
+
+import { streamToBuffer, uploadingStream } from './streamOperation';
 
 export type BlobIter = PagedAsyncIterableIterator<({
     kind: 'prefix';
@@ -37,6 +49,52 @@ export type BlobValue = ({
     kind: 'blob';
 } & BlobItem);
 
+type ProgressCallback = (progress: TransferProgressEvent) => void;
+
+/**
+ * The finished ranges of a download, for resuming.
+ */
+interface IDownloadState {
+    etag?: string;
+    blockSize: number;
+    done: number[];
+}
+
+/**
+ * Block IDs of a blob should be in the same length, and are unique for the block size and index.
+ */
+function blockIdOf(blockSize: number, index: number): string {
+    return Buffer.from(`${blockSize.toString().padStart(12, '0')}-${index.toString().padStart(6, '0')}`).toString('base64');
+}
+
+/**
+ * The pipeline options to access the account via the proxy of the cluster (if set).
+ * The custom CA is not applied by the pipeline, use NODE_EXTRA_CA_CERTS instead.
+ */
+function pipelineOptionsOf(accountUrl: string, network: INetworkOptions): StoragePipelineOptions {
+    const proxy: URL | undefined = proxyOf(network, accountUrl);
+    if (!proxy) {
+        return {};
+    }
+    const proxyOptions: ProxySettings = {
+        host: `${proxy.protocol}//${proxy.hostname}`,
+        port: Number(proxy.port) || (proxy.protocol === 'https:' ? 443 : 80)
+    };
+    if (proxy.username) {
+        proxyOptions.username = decodeURIComponent(proxy.username);
+        proxyOptions.password = decodeURIComponent(proxy.password);
+    }
+    return { proxyOptions: proxyOptions };
+}
+
+function progressOf(opts: ITransferOptions, totalBytes?: number): ProgressCallback {
+    return (progress: TransferProgressEvent) => {
+        if (opts.onProgress) {
+            opts.onProgress({ loadedBytes: progress.loadedBytes, totalBytes: totalBytes || 0 });
+        }
+    };
+}
+
 export interface IAzureBlobCfg {
     containerName: string;
     accountName?: string;
@@ -49,11 +107,14 @@ export interface IAzureBlobCfg {
  */
 
 export class AzureBlobClient implements IStorageNodeClient {
+    public static readonly DEFAULT_BLOCK_SIZE: number = 8 * 1024 * 1024;
+    public static readonly DEFAULT_CONCURRENCY: number = 5;
+
     public mkdirAllowRecursive: boolean = true;
 
     private client: ContainerClient;
 
-    constructor(data: IAzureBlobCfg) {
+    constructor(data: IAzureBlobCfg, network: INetworkOptions = {}) {
         if (!data.containerName ||
             !(data.accountKey || data.accountSASToken)
         ) {
@@ -63,15 +124,16 @@ export class AzureBlobClient implements IStorageNodeClient {
         if (data.accountKey) { // use the accountKey
             const credential: StorageSharedKeyCredential =
                 new StorageSharedKeyCredential(data.accountName!, data.accountKey!);
+            const accountUrl: string = `https://${data.accountName}.blob.core.windows.net`;
             const blobClient: BlobServiceClient = new BlobServiceClient(
-                `https://${data.accountName}.blob.core.windows.net`, credential);
+                accountUrl, credential, pipelineOptionsOf(accountUrl, network));
             this.client = blobClient.getContainerClient(data.containerName);
         } else { // SAS token
             let url: string = data.accountSASToken!;
             if (!url.startsWith('https://')) {
                 url = `https://${data.accountName}.blob.core.windows.net${data.accountSASToken}`;
             }
-            const blobClient: BlobServiceClient = new BlobServiceClient(url);
+            const blobClient: BlobServiceClient = new BlobServiceClient(url, undefined, pipelineOptionsOf(url, network));
             this.client = blobClient.getContainerClient(data.containerName);
         }
     }
@@ -88,7 +150,8 @@ export class AzureBlobClient implements IStorageNodeClient {
                 return <IFileInfo>{
                     size: properties.contentLength,
                     type: 'file',
-                    mtime: properties.lastModified
+                    mtime: properties.lastModified,
+                    md5: properties.contentMD5 ? Buffer.from(properties.contentMD5).toString('hex') : undefined
                 };
             } else {
                 return <IFileInfo>{
@@ -114,7 +177,6 @@ export class AzureBlobClient implements IStorageNodeClient {
                     };
                 }
             }
-            console.log(err);
             throw err;
         }
     }
@@ -172,37 +234,88 @@ export class AzureBlobClient implements IStorageNodeClient {
         }
     }
 
-    public async upload(localPath: string, remotePath: string, opts?: {} | undefined): Promise<void> {
+    /**
+     * Upload a local file.
+     * With opts.resume, the file is staged block by block, and the blocks staged by a previous attempt
+     * (uncommitted, with the same block size) are skipped. The local file should not be changed between attempts.
+     */
+    public async upload(localPath: string, remotePath: string, opts: ITransferOptions = {}): Promise<void> {
         try {
             const blobClient: BlockBlobClient = this.client.getBlockBlobClient(remotePath);
-            await blobClient.uploadFile(localPath);
+            const size: number = (await fs.stat(localPath)).size;
+            if (opts.resume) {
+                await this.uploadBlocks(blobClient, localPath, size, opts);
+            } else {
+                await blobClient.uploadFile(localPath, {
+                    blockSize: opts.blockSize,
+                    maxSingleShotSize: opts.blockSize,
+                    concurrency: opts.concurrency,
+                    abortSignal: opts.abortSignal,
+                    onProgress: progressOf(opts, size)
+                });
+            }
         } catch (err) {
             console.log(err);
             throw err;
         }
     }
 
-    public async download(remotePath: string, localPath: string, opts?: {} | undefined): Promise<void> {
+    /**
+     * Download a blob to local file.
+     * If any of opts.blockSize, opts.concurrency and opts.resume is set, the blob is downloaded in ranges in parallel.
+     * With opts.resume, the finished ranges are recorded in `${localPath}.download.json` until the download is completed,
+     * and skipped by the next attempt if the blob is not changed.
+     */
+    public async download(remotePath: string, localPath: string, opts: ITransferOptions = {}): Promise<void> {
         try {
             const blobClient: BlockBlobClient = this.client.getBlockBlobClient(remotePath);
-            await blobClient.downloadToFile(localPath);
+            if (opts.blockSize || opts.concurrency || opts.resume) {
+                await this.downloadBlocks(blobClient, localPath, opts);
+            } else {
+                const size: number | undefined = opts.onProgress ?
+                    (await blobClient.getProperties({ abortSignal: opts.abortSignal })).contentLength : undefined;
+                await blobClient.downloadToFile(localPath, 0, undefined, {
+                    abortSignal: opts.abortSignal,
+                    onProgress: progressOf(opts, size)
+                });
+            }
         } catch (err) {
             console.log(err);
             throw err;
         }
     }
 
+    public async createReadStream(path: string, opts: IReadStreamOptions = {}): Promise<NodeJS.ReadableStream> {
+        const offset: number = opts.start || 0;
+        const count: number | undefined = opts.end === undefined ? undefined : opts.end - offset + 1;
+        const res: BlobDownloadResponseModel = await this.client.getBlockBlobClient(path).download(offset, count);
+        return res.readableStreamBody!;
+    }
+
+    /**
+     * Create a stream to write a blob, the content is uploaded in blocks while writing.
+     */
+    public async createWriteStream(path: string): Promise<NodeJS.WritableStream> {
+        const blobClient: BlockBlobClient = this.client.getBlockBlobClient(path);
+        return uploadingStream(body => blobClient.uploadStream(
+            body, AzureBlobClient.DEFAULT_BLOCK_SIZE, AzureBlobClient.DEFAULT_CONCURRENCY
+        ));
+    }
+
+    public async readFile(path: string): Promise<Buffer> {
+        return this.client.getBlockBlobClient(path).downloadToBuffer();
+    }
+
+    public async writeFile(path: string, data: string | Buffer): Promise<void> {
+        await this.client.getBlockBlobClient(path).upload(data, Buffer.byteLength(data));
+    }
+
     public async delete(path: string): Promise<void> {
-        try {
-            const blobClient: BlockBlobClient = this.client.getBlockBlobClient(path);
-            await blobClient.delete();
-        } catch (err) {
-            console.log(err);
-            throw err;
-        }
+        const blobClient: BlockBlobClient = this.client.getBlockBlobClient(path);
+        await blobClient.delete();
     }
 
-    public async deleteFolder(path: string): Promise<void> {
+    public async deleteFolder(path: string, opts?: IFolderOptions): Promise<void> {
         try {
             const info: IFileInfo = await this.getinfo(path);
             if (info.type === 'file') {
@@ -216,6 +329,101 @@ export class AzureBlobClient implements IStorageNodeClient {
         }
     }
 
+    private async uploadBlocks(
+        blobClient: BlockBlobClient, localPath: string, size: number, opts: ITransferOptions
+    ): Promise<void> {
+        if (size === 0) {
+            await blobClient.upload('', 0, { abortSignal: opts.abortSignal });
+            return;
+        }
+        const blockSize: number = opts.blockSize || AzureBlobClient.DEFAULT_BLOCK_SIZE;
+        const blockIds: string[] = [];
+        for (let i: number = 0; i * blockSize < size; i++) {
+            blockIds.push(blockIdOf(blockSize, i));
+        }
+        const staged: Map<string, number> = new Map<string, number>();
+        try {
+            const list: BlockBlobGetBlockListResponse = await blobClient.getBlockList('uncommitted', { abortSignal: opts.abortSignal });
+            (list.uncommittedBlocks || []).forEach(block => staged.set(block.name, block.size));
+        } catch (err) {
+            if (err.statusCode !== 404) {
+                throw err;
+            }
+        }
+        const progress: ProgressCallback = progressOf(opts, size);
+        let loaded: number = 0;
+        await Util.mapLimit(blockIds, opts.concurrency || AzureBlobClient.DEFAULT_CONCURRENCY, async (blockId, i) => {
+            const offset: number = i * blockSize;
+            const length: number = Math.min(blockSize, size - offset);
+            if (staged.get(blockId) !== length) {
+                await blobClient.stageBlock(
+                    blockId,
+                    () => fs.createReadStream(localPath, { start: offset, end: offset + length - 1 }),
+                    length,
+                    { abortSignal: opts.abortSignal }
+                );
+            }
+            loaded += length;
+            progress({ loadedBytes: loaded });
+        });
+        await blobClient.commitBlockList(blockIds, { abortSignal: opts.abortSignal });
+    }
+
+    private async downloadBlocks(blobClient: BlockBlobClient, localPath: string, opts: ITransferOptions): Promise<void> {
+        const properties: BlobGetPropertiesResponse = await blobClient.getProperties({ abortSignal: opts.abortSignal });
+        const size: number = properties.contentLength || 0;
+        const blockSize: number = opts.blockSize || AzureBlobClient.DEFAULT_BLOCK_SIZE;
+        const statePath: string = `${localPath}.download.json`;
+        let state: IDownloadState = { etag: properties.etag, blockSize: blockSize, done: [] };
+        if (opts.resume && await fs.pathExists(localPath)) {
+            const saved: IDownloadState | undefined = await fs.readJson(statePath).catch(() => undefined);
+            if (saved && saved.etag === state.etag && saved.blockSize === blockSize) {
+                state = saved;
+            }
+        }
+        await fs.ensureDir(Path.dirname(localPath));
+        const fd: number = await fs.open(localPath, state.done.length > 0 ? 'r+' : 'w');
+        const progress: ProgressCallback = progressOf(opts, size);
+        const indices: number[] = [];
+        for (let i: number = 0; i * blockSize < size; i++) {
+            indices.push(i);
+        }
+        const done: Set<number> = new Set<number>(state.done);
+        let loaded: number = indices.filter(i => done.has(i)).reduce((sum, i) => sum + Math.min(blockSize, size - i * blockSize), 0);
+        let saving: Promise<void> = Promise.resolve();
+        let recording: boolean = !!opts.resume;
+        try {
+            const pending: number[] = indices.filter(i => !done.has(i));
+            await Util.mapLimit(pending, opts.concurrency || AzureBlobClient.DEFAULT_CONCURRENCY, async (i) => {
+                const offset: number = i * blockSize;
+                const length: number = Math.min(blockSize, size - offset);
+                const res: BlobDownloadResponseModel = await blobClient.download(offset, length, {
+                    abortSignal: opts.abortSignal,
+                    conditions: { ifMatch: properties.etag }
+                });
+                const buffer: Buffer = await streamToBuffer(res.readableStreamBody!);
+                await fs.write(fd, buffer, 0, buffer.length, offset);
+                state.done.push(i);
+                if (recording) {
+                    saving = saving.then(() => fs.writeJson(statePath, state));
+                }
+                loaded += length;
+                progress({ loadedBytes: loaded });
+            });
+        } catch (err) {
+            if (err.statusCode === 412) { // the blob is changed, the recorded ranges could not be resumed
+                recording = false;
+                await saving;
+                await fs.remove(statePath);
+            }
+            throw err;
+        } finally {
+            await saving;
+            await fs.close(fd);
+        }
+        await fs.remove(statePath);
+    }
+
     private async deleteBlobsByHierarchy(client: ContainerClient, prefix: string): Promise<void> {
         const iter: BlobIter = client.listBlobsByHierarchy('/', {
             prefix: prefix.endsWith('/') ? prefix : prefix + '/'
@@ -0,0 +1,336 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { Util } from '@pai/commom/util';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import minimatch from 'minimatch';
+import * as Path from 'path';
+
+import {
+    IDirEntry,
+    IFileInfo,
+    IFolderOptions,
+    IStorageNodeClient,
+    ISyncAction,
+    ISyncOptions,
+    IWalkEntry,
+    IWalkOptions
+} from '../models/storageOperation';
+
+/**
+ * Backend-agnostic folder operations built on the essential methods of IStorageNodeClient
+ */
+
+const DEFAULT_CONCURRENCY: number = 4;
+
+interface IFolderTree {
+    dirs: string[]; // relative paths, parents before children
+    files: string[]; // relative paths in posix format
+    infos: Map<string, IFileInfo>; // info of the files
+}
+
+function emptyTree(): IFolderTree {
+    return { dirs: [], files: [], infos: new Map<string, IFileInfo>() };
+}
+
+/**
+ * whether the folder operation is filtered by include / exclude patterns
+ */
+export function hasFilters(opts?: IFolderOptions): boolean {
+    return !!opts && ((!!opts.include && opts.include.length > 0) || (!!opts.exclude && opts.exclude.length > 0));
+}
+
+/**
+ * check a relative path against the include / exclude patterns
+ */
+export function isSelected(relPath: string, opts?: IFolderOptions): boolean {
+    if (!opts) {
+        return true;
+    }
+    const match = (pattern: string) => minimatch(relPath, pattern, { dot: true });
+    if (opts.include && opts.include.length > 0 && !opts.include.some(match)) {
+        return false;
+    }
+    return !(opts.exclude && opts.exclude.some(match));
+}
+
+async function walkLocal(root: string, rel: string = '', tree: IFolderTree = emptyTree()): Promise<IFolderTree> {
+    for (const name of await fs.readdir(Path.join(root, rel))) {
+        const child: string = rel ? Path.posix.join(rel, name) : name;
+        const stat: fs.Stats = await fs.stat(Path.join(root, child));
+        if (stat.isDirectory()) {
+            tree.dirs.push(child);
+            await walkLocal(root, child, tree);
+        } else {
+            tree.files.push(child);
+            tree.infos.set(child, <IFileInfo>{ type: 'file', size: stat.size, mtime: stat.mtime });
+        }
+    }
+    return tree;
+}
+
+/**
+ * whether the error means the path does not exist in the storage
+ */
+export function isNotFound(err: any): boolean {
+    return err.code === 'ENOENT' ||
+        err.statusCode === 404 ||
+        err.name === 'FileNotFoundException' ||
+        (!!err.details && err.details.errorCode === 'BlobNotFound');
+}
+
+/**
+ * list a remote directory with the info of each entry
+ */
+export async function listdirWithInfo(client: IStorageNodeClient, path: string): Promise<IDirEntry[]> {
+    if (client.listdirWithInfo) {
+        return client.listdirWithInfo(path);
+    }
+    const entries: IDirEntry[] = [];
+    for (const name of await client.listdir(path)) {
+        entries.push({ name: name, ...await client.getinfo(Path.posix.join(path, name)) });
+    }
+    return entries;
+}
+
+/**
+ * walk a remote directory recursively, parents are yielded before children
+ */
+export async function* walk(
+    client: IStorageNodeClient, path: string, opts: IWalkOptions = {}, depth: number = 1
+): AsyncIterableIterator<IWalkEntry> {
+    if (opts.maxDepth !== undefined && depth > opts.maxDepth) {
+        return;
+    }
+    for (const entry of await listdirWithInfo(client, path)) {
+        const { name, ...info } = entry;
+        const item: IWalkEntry = { path: Path.posix.join(path, name), info: info };
+        if (opts.filter && !opts.filter(item)) {
+            continue;
+        }
+        yield item;
+        if (info.type === 'directory') {
+            yield* walk(client, item.path, opts, depth + 1);
+        }
+    }
+}
+
+async function walkRemote(
+    client: IStorageNodeClient, root: string, rel: string = '', tree: IFolderTree = emptyTree()
+): Promise<IFolderTree> {
+    for (const entry of await listdirWithInfo(client, Path.posix.join(root, rel))) {
+        const { name, ...info } = entry;
+        const child: string = rel ? Path.posix.join(rel, name) : name;
+        if (info.type === 'directory') {
+            tree.dirs.push(child);
+            await walkRemote(client, root, child, tree);
+        } else {
+            tree.files.push(child);
+            tree.infos.set(child, info);
+        }
+    }
+    return tree;
+}
+
+/**
+ * the folders (including ancestors) containing the selected files, parents before children
+ */
+function parentDirs(files: string[]): string[] {
+    const dirs: Set<string> = new Set<string>();
+    for (const file of files) {
+        let dir: string = Path.posix.dirname(file);
+        while (dir !== '.' && !dirs.has(dir)) {
+            dirs.add(dir);
+            dir = Path.posix.dirname(dir);
+        }
+    }
+    return Array.from(dirs).sort((a, b) => a.split('/').length - b.split('/').length);
+}
+
+async function processFiles(
+    files: string[], opts: IFolderOptions, func: (relPath: string) => Promise<void>
+): Promise<void> {
+    let completed: number = 0;
+    await Util.mapLimit(files, opts.concurrency || DEFAULT_CONCURRENCY, async (relPath: string) => {
+        await func(relPath);
+        completed++;
+        if (opts.onProgress) {
+            opts.onProgress({ path: relPath, completed: completed, total: files.length });
+        }
+    });
+}
+
+/**
+ * upload a local folder recursively
+ */
+export async function uploadFolder(
+    client: IStorageNodeClient, localPath: string, remotePath: string, opts: IFolderOptions = {}
+): Promise<void> {
+    const tree: IFolderTree = await walkLocal(localPath);
+    const files: string[] = tree.files.filter(f => isSelected(f, opts));
+    const dirs: string[] = hasFilters(opts) ? parentDirs(files) : tree.dirs;
+    await client.makedir(remotePath);
+    for (const dir of dirs) {
+        await client.makedir(Path.posix.join(remotePath, dir));
+    }
+    await processFiles(files, opts, async (relPath: string) => client.upload(
+        Path.join(localPath, relPath), Path.posix.join(remotePath, relPath)
+    ));
+}
+
+/**
+ * download a remote folder recursively
+ */
+export async function downloadFolder(
+    client: IStorageNodeClient, remotePath: string, localPath: string, opts: IFolderOptions = {}
+): Promise<void> {
+    const tree: IFolderTree = await walkRemote(client, remotePath);
+    const files: string[] = tree.files.filter(f => isSelected(f, opts));
+    const dirs: string[] = hasFilters(opts) ? parentDirs(files) : tree.dirs;
+    await fs.ensureDir(localPath);
+    for (const dir of dirs) {
+        await fs.ensureDir(Path.join(localPath, dir));
+    }
+    await processFiles(files, opts, async (relPath: string) => client.download(
+        Path.posix.join(remotePath, relPath), Path.join(localPath, relPath)
+    ));
+}
+
+/**
+ * copy a folder on local file system file by file, e.g. between a mounted storage and a local folder
+ */
+export async function copyLocalFolder(src: string, dest: string, opts: IFolderOptions = {}): Promise<void> {
+    const tree: IFolderTree = await walkLocal(src);
+    await fs.ensureDir(dest);
+    for (const dir of tree.dirs) {
+        await fs.ensureDir(Path.join(dest, dir));
+    }
+    await processFiles(tree.files, opts, async (relPath: string) => fs.copy(
+        Path.join(src, relPath), Path.join(dest, relPath)
+    ));
+}
+
+/**
+ * delete a remote folder recursively
+ * if filters are given, only the selected files are deleted and the folders are kept
+ */
+export async function deleteFolder(client: IStorageNodeClient, path: string, opts: IFolderOptions = {}): Promise<void> {
+    const tree: IFolderTree = await walkRemote(client, path);
+    const files: string[] = tree.files.filter(f => isSelected(f, opts));
+    await processFiles(files, opts, async (relPath: string) => client.delete(Path.posix.join(path, relPath)));
+    if (!hasFilters(opts)) {
+        for (const dir of tree.dirs.reverse()) {
+            await deleteDir(client, Path.posix.join(path, dir));
+        }
+        await deleteDir(client, path);
+    }
+}
+
+/**
+ * delete an empty remote directory, which may not exist by itself (e.g. a virtual directory of azure blob)
+ */
+async function deleteDir(client: IStorageNodeClient, path: string): Promise<void> {
+    try {
+        await client.delete(path);
+    } catch (err) {
+        if (!isNotFound(err)) {
+            throw err;
+        }
+    }
+}
+
+async function md5sum(localPath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const hash: crypto.Hash = crypto.createHash('md5');
+        fs.createReadStream(localPath)
+            .on('error', reject)
+            .on('data', (chunk: Buffer) => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')));
+    });
+}
+
+/**
+ * compare a local file with the remote one, return the reason to upload it or undefined if unchanged
+ */
+async function changeOf(
+    localPath: string, local: IFileInfo, remote: IFileInfo | undefined, opts: ISyncOptions
+): Promise<ISyncAction['reason'] | undefined> {
+    if (!remote) {
+        return 'new';
+    }
+    if (local.size !== remote.size) {
+        return 'size';
+    }
+    if (opts.checksum && remote.md5) {
+        return (await md5sum(localPath)) === remote.md5 ? undefined : 'md5';
+    }
+    if (!remote.mtime || new Date(local.mtime) > new Date(remote.mtime)) {
+        return 'mtime';
+    }
+    return undefined;
+}
+
+/**
+ * plan the actions to make the remote folder identical to the local one
+ */
+async function planSync(
+    client: IStorageNodeClient, localPath: string, remotePath: string, opts: ISyncOptions
+): Promise<{ actions: ISyncAction[]; remote: IFolderTree; }> {
+    const local: IFolderTree = await walkLocal(localPath);
+    let remote: IFolderTree;
+    try {
+        remote = await walkRemote(client, remotePath);
+    } catch (err) {
+        if (!isNotFound(err)) {
+            throw err;
+        }
+        remote = emptyTree(); // the remote folder does not exist yet
+    }
+    const actions: ISyncAction[] = [];
+    for (const file of local.files.filter(f => isSelected(f, opts))) {
+        const reason: ISyncAction['reason'] | undefined = await changeOf(
+            Path.join(localPath, file), local.infos.get(file)!, remote.infos.get(file), opts
+        );
+        if (reason) {
+            actions.push({ action: 'upload', path: file, reason: reason });
+        }
+    }
+    if (opts.delete) {
+        const localFiles: Set<string> = new Set<string>(local.files);
+        remote.files.filter(f => !localFiles.has(f) && isSelected(f, opts)).forEach(
+            f => actions.push({ action: 'delete', path: f, reason: 'removed' })
+        );
+    }
+    return { actions: actions, remote: remote };
+}
+
+/**
+ * upload the changed files of a local folder, and delete the remote files removed locally if opts.delete is set
+ * return the planned actions (which are not executed if opts.dryRun is set)
+ */
+export async function syncFolder(
+    client: IStorageNodeClient, localPath: string, remotePath: string, opts: ISyncOptions = {}
+): Promise<ISyncAction[]> {
+    const plan: { actions: ISyncAction[]; remote: IFolderTree; } = await planSync(client, localPath, remotePath, opts);
+    if (opts.dryRun || plan.actions.length === 0) {
+        return plan.actions;
+    }
+    const uploads: string[] = plan.actions.filter(a => a.action === 'upload').map(a => a.path);
+    const existing: Set<string> = new Set<string>(plan.remote.dirs);
+    if (plan.remote.files.length === 0 && plan.remote.dirs.length === 0) {
+        await client.makedir(remotePath);
+    }
+    for (const dir of parentDirs(uploads).filter(d => !existing.has(d))) {
+        await client.makedir(Path.posix.join(remotePath, dir));
+    }
+    await processFiles(plan.actions.map(a => a.path), opts, async (relPath: string) => {
+        const action: ISyncAction = plan.actions.find(a => a.path === relPath)!;
+        if (action.action === 'upload') {
+            await client.upload(Path.join(localPath, relPath), Path.posix.join(remotePath, relPath));
+        } else {
+            await client.delete(Path.posix.join(remotePath, relPath));
+        }
+    });
+    return plan.actions;
+}
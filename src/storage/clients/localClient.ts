@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { INfsCfg, ISambaCfg } from '@api/v2/models/storage';
+import * as fs from 'fs-extra';
+import * as Path from 'path';
+
+import {
+    IDirEntry, IFileInfo, IFolderOptions, IReadStreamOptions, IStorageNodeClient
+} from '../models/storageOperation';
+
+import * as FolderOperation from './folderOperation';
+
+/**
+ * A folder on local file system, e.g. the mount point of a NFS storage.
+ */
+export interface ILocalCfg {
+    root: string;
+}
+
+/**
+ * Local File System Client.
+ */
+export class LocalClient implements IStorageNodeClient {
+    public mkdirAllowRecursive: boolean = true;
+
+    private readonly root: string;
+
+    constructor(data: ILocalCfg) {
+        if (!data || !data.root) {
+            throw new Error(`WrongStorageDetail: ${JSON.stringify(data)}`);
+        }
+        this.root = data.root;
+    }
+
+    /**
+     * Create the client of a NFS / Samba storage which is already mounted on this machine.
+     * @param data The storage data with `mountRoot` set to the local mount point.
+     */
+    public static fromMountedStorage(data: INfsCfg | ISambaCfg): LocalClient {
+        if (!data.mountRoot) {
+            const source: string = 'address' in data ? data.address : `${data.server}:${data.path}`;
+            throw new Error(`NotMounted: set mountRoot to the local mount point of ${source}`);
+        }
+        return new LocalClient({ root: data.mountRoot });
+    }
+
+    /**
+     * Get status of a path.
+     * @param path The path.
+     */
+    public async getinfo(path: string): Promise<IFileInfo> {
+        const stat: fs.Stats = await fs.stat(this.resolve(path));
+        return {
+            mode: (stat.mode % 0o1000).toString(8),
+            owner: stat.uid.toString(),
+            group: stat.gid.toString(),
+            size: stat.size,
+            blksize: stat.blksize,
+            type: stat.isDirectory() ? 'directory' : 'file',
+            atime: stat.atime,
+            mtime: stat.mtime
+        };
+    }
+
+    public async listdir(path: string): Promise<string[]> {
+        return fs.readdir(this.resolve(path));
+    }
+
+    public async listdirWithInfo(path: string): Promise<IDirEntry[]> {
+        const names: string[] = await this.listdir(path);
+        return Promise.all(names.map(async name => ({ name: name, ...await this.getinfo(Path.posix.join(path, name)) })));
+    }
+
+    public async makedir(path: string, mode?: string | undefined): Promise<void> {
+        await fs.ensureDir(this.resolve(path), mode ? parseInt(mode, 8) : undefined);
+    }
+
+    public async upload(localPath: string, remotePath: string, opts?: {} | undefined): Promise<void> {
+        await fs.copy(localPath, this.resolve(remotePath));
+    }
+
+    public async download(remotePath: string, localPath: string, opts?: {} | undefined): Promise<void> {
+        await fs.copy(this.resolve(remotePath), localPath);
+    }
+
+    public async delete(path: string): Promise<void> {
+        const target: string = this.resolve(path);
+        if ((await fs.stat(target)).isDirectory()) {
+            await fs.rmdir(target);
+        } else {
+            await fs.unlink(target);
+        }
+    }
+
+    public async createReadStream(path: string, opts: IReadStreamOptions = {}): Promise<NodeJS.ReadableStream> {
+        const target: string = this.resolve(path);
+        await fs.access(target, fs.constants.R_OK);
+        return fs.createReadStream(target, { start: opts.start, end: opts.end });
+    }
+
+    public async createWriteStream(path: string): Promise<NodeJS.WritableStream> {
+        const target: string = this.resolve(path);
+        await fs.ensureDir(Path.dirname(target));
+        return fs.createWriteStream(target);
+    }
+
+    public async readFile(path: string): Promise<Buffer> {
+        return fs.readFile(this.resolve(path));
+    }
+
+    public async writeFile(path: string, data: string | Buffer): Promise<void> {
+        await fs.outputFile(this.resolve(path), data);
+    }
+
+    public async uploadFolder(localPath: string, remotePath: string, opts?: IFolderOptions): Promise<void> {
+        await FolderOperation.copyLocalFolder(localPath, this.resolve(remotePath), opts);
+    }
+
+    public async downloadFolder(remotePath: string, localPath: string, opts?: IFolderOptions): Promise<void> {
+        await FolderOperation.copyLocalFolder(this.resolve(remotePath), localPath, opts);
+    }
+
+    public async deleteFolder(path: string, opts?: IFolderOptions): Promise<void> {
+        await fs.remove(this.resolve(path));
+    }
+
+    /**
+     * Map a storage path to the local path, the path should not go outside of the root.
+     */
+    private resolve(path: string): string {
+        const relative: string = Path.posix.normalize(`/${path.split(Path.sep).join('/')}`);
+        return Path.join(this.root, relative);
+    }
+}
@@ -1,35 +1,85 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import { INetworkOptions } from '@api/v2/models/cluster';
+import { INfsCfg, ISambaCfg, IStorageDetail } from '@api/v2/models/storage';
+
 import { AzureBlobClient, IAzureBlobCfg } from '../clients/azureBlobClient';
-import { IFileInfo, IStorageNode, IStorageNodeClient } from '../models/storageOperation';
+import {
+    IDirEntry,
+    IFileInfo,
+    IFolderOptions,
+    IListOptions,
+    IReadStreamOptions,
+    IStorageNode,
+    IStorageNodeClient,
+    ISyncAction,
+    ISyncOptions,
+    ITransferOptions,
+    IWalkEntry,
+    IWalkOptions
+} from '../models/storageOperation';
+
+import * as FolderOperation from './folderOperation';
+import { ILocalCfg, LocalClient } from './localClient';
+import * as StreamOperation from './streamOperation';
+import { IWebHdfsCfg, WebHdfsClient } from './webHdfsClient';
 
 /**
  * Essential information for accessing a storage
+ * the type is the key to find the client factory registered by StorageNode.registerBackend()
  */
-export type IStorageDispatcher = {
-    type: 'azureBlob';
-    data: IAzureBlobCfg;
-} | {
-    type: 'hdfs';
+export interface IStorageDispatcher {
+    type: string;
     data: object;
-};
+}
+
+/**
+ * Create the storage client from the data of IStorageDispatcher (the storage config of the type),
+ * and the network settings (e.g. proxy) of the cluster if given
+ */
+export type StorageClientFactory<D extends object = IStorageDetail['data']> =
+    (data: D, network?: INetworkOptions) => IStorageNodeClient;
 
 /**
  * StorageNode class.
  */
 
 export class StorageNode<T> implements IStorageNode<T> {
+    // the factories take the storage configs of different types
+    private static readonly backends: { [type: string]: StorageClientFactory<any>; } = {};
+
     public config: T;
     public client: IStorageNodeClient;
 
-    constructor(config: T) {
+    constructor(config: T, network?: INetworkOptions) {
         this.config = config;
         const cfgDisp: IStorageDispatcher = this.storageConfigDispatcher(config);
-        switch (cfgDisp.type) {
-            case 'azureBlob': this.client = new AzureBlobClient(cfgDisp.data);
-            default: throw new Error('NotImplemented');
+        if (!(cfgDisp.type in StorageNode.backends)) {
+            throw new Error(`NotImplemented: storage type ${cfgDisp.type}`);
         }
+        this.client = StorageNode.backends[cfgDisp.type](cfgDisp.data, network);
+    }
+
+    /**
+     * register (or replace) the client factory of a storage type
+     */
+    public static registerBackend<D extends object>(type: string, factory: StorageClientFactory<D>): void {
+        StorageNode.backends[type] = factory;
+    }
+
+    /**
+     * remove the client factory of a storage type
+     */
+    public static unregisterBackend(type: string): void {
+        delete StorageNode.backends[type];
+    }
+
+    /**
+     * the storage types which have a registered client factory
+     */
+    public static registeredBackends(): string[] {
+        return Object.keys(StorageNode.backends);
     }
 
     public storageConfigDispatcher(config: T): IStorageDispatcher {
@@ -40,25 +90,25 @@ export class StorageNode<T> implements IStorageNode<T> {
         return this.client.getinfo(path);
     }
 
-    public async listdir(path: string): Promise<string[]> {
-        return this.client.listdir(path);
+    public async listdir(path: string, opts?: IListOptions & { withInfo?: false }): Promise<string[]>;
+    public async listdir(path: string, opts: IListOptions & { withInfo: true }): Promise<IDirEntry[]>;
+    public async listdir(path: string, opts: IListOptions = {}): Promise<string[] | IDirEntry[]> {
+        if (opts.withInfo) {
+            return FolderOperation.listdirWithInfo(this.client, path);
+        } else {
+            return this.client.listdir(path);
+        }
     }
 
     public async makedir(path: string, mode?: string | undefined): Promise<void> {
-        try {
-            return this.client.makedir(path);
-        } catch (e) {
-            if (!this.client.mkdirAllowRecursive) {
-                // do something recursively
-            }
-        }
+        await this.client.makedir(path, mode);
     }
 
-    public async upload(localPath: string, remotePath: string, opts?: {} | undefined): Promise<void> {
+    public async upload(localPath: string, remotePath: string, opts?: ITransferOptions): Promise<void> {
         return this.client.upload(localPath, remotePath, opts);
     }
 
-    public async download(remotePath: string, localPath: string, opts?: {} | undefined): Promise<void> {
+    public async download(remotePath: string, localPath: string, opts?: ITransferOptions): Promise<void> {
         return this.client.download(remotePath, localPath, opts);
     }
 
@@ -66,42 +116,109 @@ export class StorageNode<T> implements IStorageNode<T> {
         return this.client.delete(path);
     }
 
-    public existsSync(path: string): boolean {
-        throw new Error('Method not implemented.');
+    public async createReadStream(path: string, opts?: IReadStreamOptions): Promise<NodeJS.ReadableStream> {
+        return StreamOperation.createReadStream(this.client, path, opts);
+    }
+
+    public async createWriteStream(path: string): Promise<NodeJS.WritableStream> {
+        return StreamOperation.createWriteStream(this.client, path);
+    }
+
+    /* handle whole file reading / writing in memory
+     * if this.client has corresponding method, use it
+     * otherwise implement it by streams
+     */
+    public async readFile(path: string): Promise<Buffer> {
+        if (this.client.readFile) {
+            return this.client.readFile(path);
+        } else {
+            return StreamOperation.readFile(this.client, path);
+        }
+    }
+
+    public async writeFile(path: string, data: string | Buffer): Promise<void> {
+        if (this.client.writeFile) {
+            return this.client.writeFile(path, data);
+        } else {
+            return StreamOperation.writeFile(this.client, path, data);
+        }
     }
 
-    public isdirSync(path: string): boolean {
-        throw new Error('Method not implemented.');
+    public async exists(path: string): Promise<boolean> {
+        try {
+            await this.client.getinfo(path);
+            return true;
+        } catch (err) {
+            if (FolderOperation.isNotFound(err)) {
+                return false;
+            }
+            throw err;
+        }
+    }
+
+    public async isdir(path: string): Promise<boolean> {
+        try {
+            return (await this.client.getinfo(path)).type === 'directory';
+        } catch (err) {
+            if (FolderOperation.isNotFound(err)) {
+                return false;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * walk a directory recursively, yield the path (joined with the given one) and info of each entry
+     */
+    public walk(path: string, opts?: IWalkOptions): AsyncIterableIterator<IWalkEntry> {
+        return FolderOperation.walk(this.client, path, opts);
     }
 
     /* handle folder opation
-     * if this.client has corresponding folder operation, use it
+     * if this.client has corresponding folder operation (and no filter is given), use it
      * otherwise implement it recursively
+     * the native deleteFolder removes the whole folder at once, so it is not used if the progress is required
      */
-    public async uploadFolder(localPath: string, remotePath: string, opts?: {} | undefined): Promise<void> {
-        if (this.client.uploadFolder) {
+    public async uploadFolder(localPath: string, remotePath: string, opts?: IFolderOptions): Promise<void> {
+        if (this.client.uploadFolder && !FolderOperation.hasFilters(opts)) {
             return this.client.uploadFolder(localPath, remotePath, opts);
         } else {
-            // TODO: handle upload recursively here
-            throw new Error('Method not implemented.');
+            return FolderOperation.uploadFolder(this.client, localPath, remotePath, opts);
         }
     }
 
-    public async downloadFolder(remotePath: string, localPath: string, opts?: {} | undefined): Promise<void> {
-        if (this.client.downloadFolder) {
+    public async downloadFolder(remotePath: string, localPath: string, opts?: IFolderOptions): Promise<void> {
+        if (this.client.downloadFolder && !FolderOperation.hasFilters(opts)) {
             return this.client.downloadFolder(remotePath, localPath, opts);
         } else {
-            // TODO: handle download recursively here
-            throw new Error('Method not implemented.');
+            return FolderOperation.downloadFolder(this.client, remotePath, localPath, opts);
         }
     }
 
-    public async deleteFolder(path: string): Promise<void> {
-        if (this.client.deleteFolder) {
-            return this.client.deleteFolder(path);
+    public async deleteFolder(path: string, opts?: IFolderOptions): Promise<void> {
+        if (this.client.deleteFolder && !FolderOperation.hasFilters(opts) && !(opts && opts.onProgress)) {
+            return this.client.deleteFolder(path, opts);
         } else {
-            // TODO: handle deletion recursively here
-            throw new Error('Method not implemented.');
+            return FolderOperation.deleteFolder(this.client, path, opts);
         }
     }
+
+    /**
+     * upload the changed (compared by size and modified time or MD5) files of a local folder
+     */
+    public async sync(localPath: string, remotePath: string, opts?: ISyncOptions): Promise<ISyncAction[]> {
+        return FolderOperation.syncFolder(this.client, localPath, remotePath, opts);
+    }
 }
+
+StorageNode.registerBackend('azureBlob', (data: IAzureBlobCfg, network?: INetworkOptions) => new AzureBlobClient(
+    data, network
+));
+StorageNode.registerBackend('hdfs', (data: IWebHdfsCfg, network?: INetworkOptions) => new WebHdfsClient(
+    { mountPoint: '/', server: '', path: '' },
+    { spn: '', type: 'hdfs', data: data, extension: {} },
+    network
+));
+StorageNode.registerBackend('local', (data: ILocalCfg) => new LocalClient(data));
+StorageNode.registerBackend('nfs', (data: INfsCfg) => LocalClient.fromMountedStorage(data));
+StorageNode.registerBackend('samba', (data: ISambaCfg) => LocalClient.fromMountedStorage(data));
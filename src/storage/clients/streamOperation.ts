@@ -0,0 +1,117 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as Path from 'path';
+import { pipeline, PassThrough, Readable, Writable } from 'stream';
+import { promisify } from 'util';
+
+import { IReadStreamOptions, IStorageNodeClient } from '../models/storageOperation';
+
+/**
+ * Backend-agnostic stream helpers built on createReadStream / createWriteStream of IStorageNodeClient,
+ * or on download / upload if the client does not implement the streams
+ */
+
+/**
+ * read the whole stream into memory
+ */
+export async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)));
+        stream.on('end', () => resolve(Buffer.concat(chunks)));
+        stream.on('error', reject);
+    });
+}
+
+/**
+ * create a writable stream whose content is consumed by `upload` as a readable body,
+ * 'finish' is emitted after `upload` is resolved, and the stream is destroyed if `upload` is rejected
+ */
+export function uploadingStream(upload: (body: Readable) => Promise<any>): Writable {
+    const body: PassThrough = new PassThrough();
+    const uploading: Promise<any> = upload(body);
+    const stream: Writable = new Writable({
+        write: (chunk: any, encoding: string, callback: (err?: Error) => void) => {
+            if (body.write(chunk, encoding)) {
+                callback();
+            } else {
+                body.once('drain', callback);
+            }
+        },
+        final: (callback: (err?: Error) => void) => {
+            body.end();
+            uploading.then(() => callback(undefined), callback);
+        }
+    });
+    uploading.catch((err: Error) => stream.destroy(err));
+    return stream;
+}
+
+function tempPathOf(): string {
+    return Path.join(os.tmpdir(), `openpai-${crypto.randomBytes(8).toString('hex')}`);
+}
+
+/**
+ * create a stream to read a remote file,
+ * which is downloaded to a temp file and read into memory if the client has no createReadStream
+ */
+export async function createReadStream(
+    client: IStorageNodeClient, path: string, opts: IReadStreamOptions = {}
+): Promise<NodeJS.ReadableStream> {
+    if (client.createReadStream) {
+        return client.createReadStream(path, opts);
+    }
+    const tempPath: string = tempPathOf();
+    let data: Buffer;
+    try {
+        await client.download(path, tempPath);
+        data = await fs.readFile(tempPath);
+    } finally {
+        await fs.remove(tempPath);
+    }
+    const stream: PassThrough = new PassThrough();
+    stream.end(data.slice(opts.start || 0, opts.end === undefined ? undefined : opts.end + 1));
+    return stream;
+}
+
+/**
+ * create a stream to write a remote file,
+ * which is written to a temp file and uploaded when ended if the client has no createWriteStream
+ */
+export async function createWriteStream(client: IStorageNodeClient, path: string): Promise<NodeJS.WritableStream> {
+    if (client.createWriteStream) {
+        return client.createWriteStream(path);
+    }
+    return uploadingStream(async (body: Readable) => {
+        const tempPath: string = tempPathOf();
+        try {
+            await promisify(pipeline)(body, fs.createWriteStream(tempPath));
+            await client.upload(tempPath, path);
+        } finally {
+            await fs.remove(tempPath);
+        }
+    });
+}
+
+/**
+ * read a remote file into memory
+ */
+export async function readFile(client: IStorageNodeClient, path: string): Promise<Buffer> {
+    return streamToBuffer(await createReadStream(client, path));
+}
+
+/**
+ * write the data to a remote file
+ */
+export async function writeFile(client: IStorageNodeClient, path: string, data: string | Buffer): Promise<void> {
+    const stream: NodeJS.WritableStream = await createWriteStream(client, path);
+    await new Promise<void>((resolve, reject) => {
+        stream.on('finish', resolve);
+        stream.on('error', reject);
+        stream.end(data);
+    });
+}
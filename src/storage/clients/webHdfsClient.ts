@@ -1,41 +1,264 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import { INetworkOptions } from '@api/v2/models/cluster';
 import { IMountInfo, IStorageServer } from '@api/v2/models/storage';
+import { networkConfigOf } from '@pai/commom/networkOptions';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, Method } from 'axios';
+import * as fs from 'fs-extra';
+import * as Path from 'path';
 
-import { IFileInfo, IStorageNodeClient } from '../models/storageOperation';
+import {
+    IDirEntry, IFileInfo, IFolderOptions, IReadStreamOptions, IStorageNodeClient
+} from '../models/storageOperation';
+
+import { uploadingStream } from './streamOperation';
+
+/**
+ * Data of a hdfs storage server.
+ * `port` is the http port of WebHDFS service on name node (default is 9870).
+ */
+export interface IWebHdfsCfg {
+    namenode: string;
+    port?: string | number;
+    https?: boolean;
+    user?: string;
+}
+
+/**
+ * The FileStatus JSON object of WebHDFS.
+ */
+interface IHdfsFileStatus {
+    accessTime: number;
+    blockSize: number;
+    group: string;
+    length: number;
+    modificationTime: number;
+    owner: string;
+    pathSuffix: string;
+    permission: string;
+    replication: number;
+    type: 'FILE' | 'DIRECTORY' | 'SYMLINK';
+}
+
+/**
+ * Convert the FileStatus of WebHDFS to IFileInfo.
+ */
+function toFileInfo(status: IHdfsFileStatus): IFileInfo {
+    return {
+        mode: status.permission,
+        owner: status.owner,
+        group: status.group,
+        size: status.length,
+        blksize: status.blockSize,
+        type: status.type === 'DIRECTORY' ? 'directory' : 'file',
+        atime: new Date(status.accessTime),
+        mtime: new Date(status.modificationTime)
+    };
+}
+
+/**
+ * Convert the RemoteException responded by WebHDFS to an Error.
+ */
+function hdfsError(err: any): Error {
+    if (err.response && err.response.data && err.response.data.RemoteException) {
+        const exception: any = err.response.data.RemoteException;
+        const error: Error = new Error(`${exception.exception}: ${exception.message}`);
+        error.name = exception.exception;
+        return error;
+    }
+    return err;
+}
 
 /**
  * Web HDFS Client.
  */
 export class WebHdfsClient implements IStorageNodeClient {
+    public static readonly DEFAULT_PORT: number = 9870;
+
     public mkdirAllowRecursive: boolean = true;
 
-    constructor(config: IMountInfo, server: IStorageServer) {
-        throw new Error('Method not implemented.');
+    private readonly baseUrl: string;
+    private readonly rootPath: string;
+    private readonly user?: string;
+    private readonly axios: AxiosInstance;
+
+    constructor(config: IMountInfo, server: IStorageServer, network: INetworkOptions = {}) {
+        const data: IWebHdfsCfg = server.data as IWebHdfsCfg;
+        if (server.type !== 'hdfs' || !data || !data.namenode) {
+            throw new Error(`WrongStorageDetail: ${JSON.stringify(server)}`);
+        }
+        const port: string | number = data.port || WebHdfsClient.DEFAULT_PORT;
+        this.baseUrl = `http${data.https ? 's' : ''}://${data.namenode}:${port}/webhdfs/v1`;
+        this.rootPath = Path.posix.join('/', config.path || '');
+        this.user = data.user;
+        // the network settings are applied to the requests to both name node and data nodes
+        this.axios = axios.create();
+        this.axios.interceptors.request.use(
+            (cfg: AxiosRequestConfig) => ({ ...cfg, ...networkConfigOf(network, cfg.url!) })
+        );
     }
 
+    /**
+     * Get status of a path.
+     * @param path The path.
+     */
     public async getinfo(path: string): Promise<IFileInfo> {
-        throw new Error('Method not implemented.');
+        const res: AxiosResponse = await this.request('GET', path, 'GETFILESTATUS');
+        return toFileInfo(res.data.FileStatus);
     }
 
     public async listdir(path: string): Promise<string[]> {
-        throw new Error('Method not implemented.');
+        const res: AxiosResponse = await this.request('GET', path, 'LISTSTATUS');
+        const statuses: IHdfsFileStatus[] = res.data.FileStatuses.FileStatus;
+        return statuses.map(status => status.pathSuffix);
+    }
+
+    public async listdirWithInfo(path: string): Promise<IDirEntry[]> {
+        const res: AxiosResponse = await this.request('GET', path, 'LISTSTATUS');
+        const statuses: IHdfsFileStatus[] = res.data.FileStatuses.FileStatus;
+        return statuses.map(status => ({ name: status.pathSuffix, ...toFileInfo(status) }));
     }
 
     public async makedir(path: string, mode?: string | undefined): Promise<void> {
-        throw new Error('Method not implemented.');
+        await this.request('PUT', path, 'MKDIRS', mode ? { permission: mode } : {});
     }
 
+    /**
+     * Upload a local file, the name node will redirect the request to a data node.
+     */
     public async upload(localPath: string, remotePath: string, opts?: {} | undefined): Promise<void> {
-        throw new Error('Method not implemented.');
+        const location: string = await this.redirectLocation('PUT', remotePath, 'CREATE', { overwrite: true });
+        try {
+            const stat: fs.Stats = await fs.stat(localPath);
+            await this.axios.put(location, fs.createReadStream(localPath), {
+                headers: {
+                    'content-length': stat.size,
+                    'content-type': 'application/octet-stream'
+                },
+                maxRedirects: 0
+            });
+        } catch (err) {
+            throw hdfsError(err);
+        }
     }
 
+    /**
+     * Download a remote file, the name node will redirect the request to a data node.
+     */
     public async download(remotePath: string, localPath: string, opts?: {} | undefined): Promise<void> {
-        throw new Error('Method not implemented.');
+        const location: string = await this.redirectLocation('GET', remotePath, 'OPEN');
+        try {
+            const res: AxiosResponse = await this.axios.get(location, {
+                responseType: 'stream',
+                maxRedirects: 0
+            });
+            await fs.ensureDir(Path.dirname(localPath));
+            await new Promise<void>((resolve, reject) => {
+                const writer: fs.WriteStream = fs.createWriteStream(localPath);
+                writer.on('finish', resolve);
+                writer.on('error', reject);
+                res.data.on('error', reject);
+                res.data.pipe(writer);
+            });
+        } catch (err) {
+            throw hdfsError(err);
+        }
+    }
+
+    /**
+     * Open a remote file as stream, the range is sent as offset / length of OPEN.
+     */
+    public async createReadStream(path: string, opts: IReadStreamOptions = {}): Promise<NodeJS.ReadableStream> {
+        const query: { [key: string]: number } = {};
+        if (opts.start) {
+            query.offset = opts.start;
+        }
+        if (opts.end !== undefined) {
+            query.length = opts.end - (opts.start || 0) + 1;
+        }
+        const location: string = await this.redirectLocation('GET', path, 'OPEN', query);
+        try {
+            const res: AxiosResponse = await this.axios.get(location, {
+                responseType: 'stream',
+                maxRedirects: 0
+            });
+            return res.data;
+        } catch (err) {
+            throw hdfsError(err);
+        }
+    }
+
+    /**
+     * Create a remote file and write it by stream (sent in chunked transfer encoding).
+     */
+    public async createWriteStream(path: string): Promise<NodeJS.WritableStream> {
+        const location: string = await this.redirectLocation('PUT', path, 'CREATE', { overwrite: true });
+        return uploadingStream(body => this.axios.put(location, body, {
+            headers: { 'content-type': 'application/octet-stream' },
+            maxRedirects: 0
+        }).catch(err => Promise.reject(hdfsError(err))));
     }
 
     public async delete(path: string): Promise<void> {
-        throw new Error('Method not implemented.');
+        await this.deletePath(path, false);
+    }
+
+    public async deleteFolder(path: string, opts?: IFolderOptions): Promise<void> {
+        await this.deletePath(path, true);
+    }
+
+    private url(path: string, op: string, query: { [key: string]: string | number | boolean } = {}): string {
+        const fullPath: string = Path.posix.join(this.rootPath, path);
+        const params: URLSearchParams = new URLSearchParams({ op: op });
+        if (this.user) {
+            params.append('user.name', this.user);
+        }
+        Object.entries(query).forEach(([k, v]) => params.append(k, String(v)));
+        return `${this.baseUrl}${fullPath.split('/').map(encodeURIComponent).join('/')}?${params.toString()}`;
+    }
+
+    /**
+     * the name node responds false (instead of an exception) if the path does not exist
+     */
+    private async deletePath(path: string, recursive: boolean): Promise<void> {
+        const res: AxiosResponse = await this.request('DELETE', path, 'DELETE', { recursive: recursive });
+        if (!res.data || !res.data.boolean) {
+            const error: Error = new Error(
+                `FileNotFoundException: File does not exist: ${Path.posix.join(this.rootPath, path)}`
+            );
+            error.name = 'FileNotFoundException';
+            throw error;
+        }
+    }
+
+    private async request(
+        method: Method, path: string, op: string, query?: { [key: string]: string | number | boolean }
+    ): Promise<AxiosResponse> {
+        try {
+            return await this.axios.request({ method: method, url: this.url(path, op, query) });
+        } catch (err) {
+            throw hdfsError(err);
+        }
+    }
+
+    /**
+     * Send the first step request of CREATE / OPEN, and return the data node location.
+     */
+    private async redirectLocation(
+        method: Method, path: string, op: string, query?: { [key: string]: string | number | boolean }
+    ): Promise<string> {
+        const options: AxiosRequestConfig = {
+            method: method,
+            url: this.url(path, op, query),
+            maxRedirects: 0,
+            validateStatus: (status: number) => status === 307
+        };
+        try {
+            const res: AxiosResponse = await this.axios.request(options);
+            return res.headers.location;
+        } catch (err) {
+            throw hdfsError(err);
+        }
     }
 }
@@ -2,10 +2,36 @@
 // Licensed under the MIT License.
 
 import { AzureBlobClient, IAzureBlobCfg } from './clients/azureBlobClient';
-import { IFileInfo } from './models/storageOperation';
+import { ILocalCfg, LocalClient } from './clients/localClient';
+import { IStorageDispatcher, StorageClientFactory, StorageNode } from './clients/storageNode';
+import { IWebHdfsCfg, WebHdfsClient } from './clients/webHdfsClient';
+import {
+    IDirEntry, IFileInfo, IFolderOptions, IFolderProgress, IListOptions, IReadStreamOptions, IStorageNode,
+    IStorageNodeClient, ISyncAction, ISyncOptions, ITransferOptions, ITransferProgress, IWalkEntry, IWalkOptions
+} from './models/storageOperation';
 
 export {
+    IDirEntry,
     IFileInfo,
+    IFolderOptions,
+    IFolderProgress,
+    IListOptions,
+    IReadStreamOptions,
     IAzureBlobCfg,
-    AzureBlobClient
+    AzureBlobClient,
+    IWebHdfsCfg,
+    WebHdfsClient,
+    ILocalCfg,
+    LocalClient,
+    IStorageNode,
+    IStorageNodeClient,
+    ISyncAction,
+    ISyncOptions,
+    ITransferOptions,
+    ITransferProgress,
+    IWalkEntry,
+    IWalkOptions,
+    IStorageDispatcher,
+    StorageClientFactory,
+    StorageNode
 };
\ No newline at end of file
@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
+import { AbortSignalLike } from '@azure/abort-controller';
+
 /**
  * An abstract File System based on file operation
  */
@@ -14,6 +16,101 @@ export interface IFileInfo {
     type: 'file' | 'directory';
     atime: Date;
     mtime: Date;
+    md5?: string; // hex digest of the content, if exposed by the storage
+}
+
+/**
+ * Progress of a file transfer
+ */
+export interface ITransferProgress {
+    loadedBytes: number;
+    totalBytes: number;
+}
+
+/**
+ * Options of file transfers (upload / download), the storage client may ignore the unsupported ones
+ */
+export interface ITransferOptions {
+    blockSize?: number; // in unit of Byte, size of the chunk transferred by one request
+    concurrency?: number; // max number of chunks transferred at the same time
+    resume?: boolean; // skip the chunks already transferred by a previous (failed) attempt
+    abortSignal?: AbortSignalLike;
+    onProgress?(progress: ITransferProgress): void;
+}
+
+/**
+ * An entry of a directory, with the info of the file
+ */
+export interface IDirEntry extends IFileInfo {
+    name: string;
+}
+
+/**
+ * Options of listdir
+ */
+export interface IListOptions {
+    withInfo?: boolean; // return IDirEntry instead of the name for each entry
+}
+
+/**
+ * An entry yielded by walk, the path is joined with the root of walk
+ */
+export interface IWalkEntry {
+    path: string;
+    info: IFileInfo;
+}
+
+/**
+ * Options of walk
+ */
+export interface IWalkOptions {
+    maxDepth?: number; // 1 for the direct children only, default is unlimited
+    filter?(entry: IWalkEntry): boolean; // the skipped entries (and descendants of skipped directories) are not yielded
+}
+
+/**
+ * Range of a read stream, both start and end are inclusive (the same as fs.createReadStream)
+ */
+export interface IReadStreamOptions {
+    start?: number;
+    end?: number;
+}
+
+/**
+ * Progress of a folder operation, reported after each file is processed
+ */
+export interface IFolderProgress {
+    path: string; // relative to the folder root
+    completed: number;
+    total: number;
+}
+
+/**
+ * Options of folder operations (uploadFolder / downloadFolder / deleteFolder)
+ */
+export interface IFolderOptions {
+    concurrency?: number; // max number of files processed at the same time, default is 4
+    include?: string[]; // glob patterns relative to the folder root, default is all files
+    exclude?: string[]; // glob patterns relative to the folder root
+    onProgress?(progress: IFolderProgress): void;
+}
+
+/**
+ * Options of sync (upload the changed files of a local folder)
+ */
+export interface ISyncOptions extends IFolderOptions {
+    delete?: boolean; // delete the remote files which do not exist locally
+    dryRun?: boolean; // only return the plan without transferring
+    checksum?: boolean; // compare the MD5 of files if the storage exposes it, instead of the modified time
+}
+
+/**
+ * An action planned by sync
+ */
+export interface ISyncAction {
+    action: 'upload' | 'delete';
+    path: string; // relative to the folder root
+    reason: 'new' | 'size' | 'mtime' | 'md5' | 'removed';
 }
 
 export interface IStorageNode<StorageCfgType> {
@@ -22,17 +119,24 @@ export interface IStorageNode<StorageCfgType> {
     client?: IStorageNodeClient;
     // Essential methods
     getinfo(path: string): Promise<IFileInfo>;
-    listdir(path: string): Promise<string[]>;
+    listdir(path: string, opts?: IListOptions & { withInfo?: false }): Promise<string[]>;
+    listdir(path: string, opts: IListOptions & { withInfo: true }): Promise<IDirEntry[]>;
     makedir(path: string, mode?: string): Promise<void>;
-    upload(localPath: string, remotePath: string, opts?: {}): Promise<void>;
-    download(remotePath: string, localPath: string, opts?: {}): Promise<void>;
+    upload(localPath: string, remotePath: string, opts?: ITransferOptions): Promise<void>;
+    download(remotePath: string, localPath: string, opts?: ITransferOptions): Promise<void>;
     delete(path: string): Promise<void>;
+    createReadStream(path: string, opts?: IReadStreamOptions): Promise<NodeJS.ReadableStream>;
+    createWriteStream(path: string): Promise<NodeJS.WritableStream>;
     // Non-essential methods
-    existsSync(path: string): boolean;
-    isdirSync(path: string): boolean;
-    uploadFolder(localPath: string, remotePath: string, opts?: {}): Promise<void>;
-    downloadFolder(remotePath: string, localPath: string, opts?: {}): Promise<void>;
-    deleteFolder(path: string): Promise<void>;
+    exists(path: string): Promise<boolean>;
+    isdir(path: string): Promise<boolean>;
+    walk(path: string, opts?: IWalkOptions): AsyncIterableIterator<IWalkEntry>;
+    readFile(path: string): Promise<Buffer>;
+    writeFile(path: string, data: string | Buffer): Promise<void>;
+    uploadFolder(localPath: string, remotePath: string, opts?: IFolderOptions): Promise<void>;
+    downloadFolder(remotePath: string, localPath: string, opts?: IFolderOptions): Promise<void>;
+    deleteFolder(path: string, opts?: IFolderOptions): Promise<void>;
+    sync(localPath: string, remotePath: string, opts?: ISyncOptions): Promise<ISyncAction[]>;
 }
 
 export interface IStorageNodeClient {
@@ -43,11 +147,20 @@ export interface IStorageNodeClient {
     getinfo(path: string): Promise<IFileInfo>;
     listdir(path: string): Promise<string[]>;
     makedir(path: string, mode?: string): Promise<void>;
-    upload(localPath: string, remotePath: string, opts?: {}): Promise<void>;
-    download(remotePath: string, localPath: string, opts?: {}): Promise<void>;
+    upload(localPath: string, remotePath: string, opts?: ITransferOptions): Promise<void>;
+    download(remotePath: string, localPath: string, opts?: ITransferOptions): Promise<void>;
     delete(path: string): Promise<void>;
 
-    uploadFolder?(localPath: string, remotePath: string, opts?: {}): Promise<void>;
-    downloadFolder?(remotePath: string, localPath: string, opts?: {}): Promise<void>;
-    deleteFolder?(path: string): Promise<void>;
+    // the streams are emulated by download / upload through a temp file if not implemented
+    createReadStream?(path: string, opts?: IReadStreamOptions): Promise<NodeJS.ReadableStream>;
+    // the stream emits 'finish' after the file is completely written to the storage
+    createWriteStream?(path: string): Promise<NodeJS.WritableStream>;
+    listdirWithInfo?(path: string): Promise<IDirEntry[]>;
+    readFile?(path: string): Promise<Buffer>;
+    writeFile?(path: string, data: string | Buffer): Promise<void>;
+    // the native folder operations are used if no filter is given, they should respect the concurrency
+    // and report the progress of each file, deleteFolder is only used without onProgress
+    uploadFolder?(localPath: string, remotePath: string, opts?: IFolderOptions): Promise<void>;
+    downloadFolder?(remotePath: string, localPath: string, opts?: IFolderOptions): Promise<void>;
+    deleteFolder?(path: string, opts?: IFolderOptions): Promise<void>;
 }
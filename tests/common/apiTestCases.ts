@@ -116,6 +116,16 @@ function updateTestJobExecutionType(executionType: 'START' | 'STOP'): IApiOperat
     };
 }
 
+function testJobOperation(operationId: string, ...values: any[]): IApiOperation {
+    return {
+        tag: 'job',
+        operationId: operationId,
+        parameters: [clustersJson[0].username, 'sdk_test_job' + randomString.get(), ...values].map(
+            value => ({ type: 'raw', value: value })
+        )
+    };
+}
+
 /**
  * API default test cases will be add to the test case generator.
  */
@@ -801,6 +811,28 @@ export const ApiDefaultTestCases: {[key: string]: IApiTestCase} = {
             }
         }]
     },
+    'get /api/v2/jobs': {
+        tests: [
+            {
+                description: 'List jobs'
+            },
+            {
+                description: 'List jobs with filters and paging',
+                operation: {
+                    parameters: [{
+                        type: 'raw',
+                        value: {
+                            username: clustersJson[0].username,
+                            state: ['RUNNING', 'WAITING'],
+                            offset: 0,
+                            limit: 10,
+                            order: 'submissionTime,DESC'
+                        }
+                    }]
+                }
+            }
+        ]
+    },
     'post /api/v2/jobs': {
         tests: [{
             operation: createTestJob()
@@ -846,6 +878,45 @@ export const ApiDefaultTestCases: {[key: string]: IApiTestCase} = {
         ],
         after: [ updateTestJobExecutionType('STOP') ]
     },
+    'delete /api/v2/jobs/{user}~{job}': {
+        before: [ createTestJob(), updateTestJobExecutionType('STOP') ],
+        tests: [{
+            description: 'Delete a stopped job',
+            operation: testJobOperation('deleteJob')
+        }]
+    },
+    'get /api/v2/jobs/{user}~{job}/ssh': {
+        before: [ createTestJob() ],
+        tests: [{
+            description: 'Get the ssh info of a job',
+            operation: testJobOperation('getJobSshInfo')
+        }],
+        after: [ updateTestJobExecutionType('STOP') ]
+    },
+    'get /api/v2/jobs/{user}~{job}/events': {
+        before: [ createTestJob() ],
+        tests: [{
+            description: 'Get the warning events of a job',
+            operation: testJobOperation('getJobEvents', 'Warning')
+        }],
+        after: [ updateTestJobExecutionType('STOP') ]
+    },
+    'put /api/v2/jobs/{user}~{job}/tag': {
+        before: [ createTestJob() ],
+        tests: [{
+            description: 'Add a tag to a job',
+            operation: testJobOperation('addJobTag', 'sdk_test_tag')
+        }],
+        after: [ updateTestJobExecutionType('STOP') ]
+    },
+    'delete /api/v2/jobs/{user}~{job}/tag': {
+        before: [ createTestJob(), testJobOperation('addJobTag', 'sdk_test_tag') ],
+        tests: [{
+            description: 'Remove a tag from a job',
+            operation: testJobOperation('deleteJobTag', 'sdk_test_tag')
+        }],
+        after: [ updateTestJobExecutionType('STOP') ]
+    },
     'get /api/v2/jobs/{user}~{job}/config': {
         before: [ createTestJob() ],
         tests: [
@@ -2,10 +2,13 @@
 // Licensed under the MIT License.
 
 import { IPAICluster } from '@api/v2';
+import * as yaml from 'js-yaml';
 import nock from 'nock';
 
+import { testJobConfig } from '../common/test_data/testJobConfig';
 import { testJobList } from '../common/test_data/testJobList';
 import { testJobStatus } from '../common/test_data/testJobStatus';
+import { testLocalStorage } from '../common/test_data/testStorages';
 
 /**
  * Fake rest server.
@@ -28,6 +31,16 @@ class RestServer {
     public queryJobStatus = () => nock(`http://${this.testUri}`).get(
         `/api/v2/jobs/${testJobStatus.jobStatus.username}~${testJobStatus.name}`
     ).reply(200, testJobStatus)
+
+    public getJobConfig = () => nock(`http://${this.testUri}`).get(
+        `/api/v2/jobs/${testJobStatus.jobStatus.username}~${testJobStatus.name}/config`
+    ).reply(200, yaml.safeDump(testJobConfig))
+
+    public createJob = () => nock(`http://${this.testUri}`).post('/api/v2/jobs').reply(202);
+
+    public getLocalStorage = () => nock(`http://${this.testUri}`).get(
+        `/api/v2/storages/${testLocalStorage.name}`
+    ).reply(200, testLocalStorage)
 }
 
 export const fakeRestSrv: RestServer = new RestServer();
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { IStorageDetail, IStorageSummary } from '@api/v2';
+import { IMountInfo, IStorageDetail, IStorageServer, IStorageSummary } from '@api/v2';
 
 /**
  * Storage test data.
@@ -35,3 +35,30 @@ export const testAzureBlobInfoSasToken: IStorageDetail = {
         accountSASToken: 'queryString'
     }
 };
+
+export const testHdfsServer: IStorageServer = {
+    spn: 'hdfsServer',
+    type: 'hdfs',
+    data: {
+        namenode: 'namenode.test',
+        port: 9870,
+        user: 'core'
+    },
+    extension: {}
+};
+
+export const testHdfsMountInfo: IMountInfo = {
+    mountPoint: '/data',
+    server: 'hdfsServer',
+    path: 'users/core'
+};
+
+export const testLocalStorage: IStorageDetail = {
+    name: 'localStorage',
+    share: false,
+    volumeName: 'localVol',
+    type: 'local',
+    data: {
+        root: '/mnt/local-storage'
+    }
+};
@@ -2,6 +2,8 @@
 // Licensed under the MIT License.
 
 import { AzureBlobClient, IAzureBlobCfg, IFileInfo } from '@pai/storage';
+import * as FolderOperation from '@pai/storage/clients/folderOperation';
+import * as StreamOperation from '@pai/storage/clients/streamOperation';
 import * as chai from 'chai';
 import { expect } from 'chai';
 import dirtyChai from 'dirty-chai';
@@ -130,6 +132,45 @@ describe('Create folder and delete', () => {
     }).timeout(10000);
 });
 
+describe('Delete a folder without the folder marker', () => {
+    const host: string = 'https://accountname.blob.core.windows.net';
+    const listing = (...items: string[]) => '<?xml version="1.0" encoding="utf-8"?><EnumerationResults><Blobs>' +
+        items.map(i => i.endsWith('/') ? `<BlobPrefix><Name>${i}</Name></BlobPrefix>` : `<Blob><Name>${i}</Name></Blob>`).join('') +
+        '</Blobs><NextMarker /></EnumerationResults>';
+    const listQuery = (prefix: string, max: number) =>
+        `?prefix=${encodeURIComponent(prefix)}&delimiter=%2F&maxresults=${max}&include=metadata&restype=container&comp=list`;
+    let scope: nock.Scope;
+
+    before(() => {
+        scope = nock(host)
+            .get(`/containerName${listQuery('virtual/', 20)}`)
+            .reply(200, listing('virtual/sub/', 'virtual/a.txt'), { 'Content-Type': 'application/xml' })
+            .head('/containerName/virtual%2Fsub')
+            .reply(404, '', { 'x-ms-error-code': 'BlobNotFound' })
+            .get(`/containerName${listQuery('virtual/sub/', 1)}`)
+            .reply(200, listing('virtual/sub/b.txt'), { 'Content-Type': 'application/xml' })
+            .head('/containerName/virtual%2Fa.txt')
+            .reply(200, '', { 'Content-Length': ['1'] })
+            .get(`/containerName${listQuery('virtual/sub/', 20)}`)
+            .reply(200, listing('virtual/sub/b.txt'), { 'Content-Type': 'application/xml' })
+            .head('/containerName/virtual%2Fsub%2Fb.txt')
+            .reply(200, '', { 'Content-Length': ['1'] })
+            .delete('/containerName/virtual%2Fa.txt')
+            .reply(202)
+            .delete('/containerName/virtual%2Fsub%2Fb.txt')
+            .reply(202)
+            .delete('/containerName/virtual%2Fsub')
+            .reply(404, '', { 'x-ms-error-code': 'BlobNotFound' })
+            .delete('/containerName/virtual')
+            .reply(404, '', { 'x-ms-error-code': 'BlobNotFound' });
+    });
+
+    it('should delete the files and skip the virtual directories', async () => {
+        await FolderOperation.deleteFolder(client, 'virtual');
+        expect(scope.isDone(), 'some requests are not sent').to.be.true();
+    });
+});
+
 describe('Upload and download', () => {
     let localPath: string;
     let newLocalPath: string;
@@ -164,3 +205,116 @@ describe('Upload and download', () => {
 
     after(() => mockFs.restore());
 });
+
+describe('Upload and download in blocks', () => {
+    let localPath: string;
+    let newLocalPath: string;
+    const content: string = 'test content';
+    const blockId = (index: number) => Buffer.from(`${'4'.padStart(12, '0')}-${index.toString().padStart(6, '0')}`).toString('base64');
+    const staged: string[] = [];
+    let committed: string = '';
+
+    before(() => {
+        localPath = path.join(os.tmpdir(), './.test/blocks.txt');
+        newLocalPath = path.join(os.tmpdir(), './.test/new_blocks.txt');
+        fs.mkdirSync(path.dirname(localPath), { recursive: true });
+        fs.writeFileSync(localPath, content);
+        const blockList: string = '<?xml version="1.0" encoding="utf-8"?><BlockList><CommittedBlocks />' +
+            `<UncommittedBlocks><Block><Name>${blockId(0)}</Name><Size>4</Size></Block></UncommittedBlocks></BlockList>`;
+        nock('https://accountname.blob.core.windows.net')
+            .get('/containerName/blocks.txt')
+            .query({ comp: 'blocklist', blocklisttype: 'uncommitted' })
+            .reply(200, blockList, { 'Content-Type': 'application/xml' })
+            .put('/containerName/blocks.txt')
+            .query(q => q.comp === 'block')
+            .times(2)
+            .reply(201, (uri: string) => {
+                staged.push(decodeURIComponent(uri.split('blockid=')[1].split('&')[0]));
+                return '';
+            })
+            .put('/containerName/blocks.txt', (body: string) => {
+                committed = body;
+                return true;
+            })
+            .query({ comp: 'blocklist' })
+            .reply(201)
+            .head('/containerName/blocks.txt')
+            .reply(200, '', { 'Content-Length': ['12'], ETag: '0x8D7B9FC84AD5D1F' });
+        for (const [start, end] of [[0, 4], [5, 9], [10, 11]]) {
+            nock('https://accountname.blob.core.windows.net')
+                .get('/containerName/blocks.txt')
+                .matchHeader('x-ms-range', `bytes=${start}-${end}`)
+                .reply(206, content.slice(start, end + 1), {
+                    'Content-Length': [(end - start + 1).toString()],
+                    ETag: '0x8D7B9FC84AD5D1F'
+                });
+        }
+    });
+
+    // the block list is serialized by modules loaded lazily, which are not available in the mocked file system
+    beforeEach(mockFs.restore);
+    after(() => [localPath, newLocalPath].forEach(p => fs.unlinkSync(p)));
+
+    it('should skip the staged blocks when resuming', async () => {
+        const progress: number[] = [];
+        await client.upload(localPath, 'blocks.txt', {
+            blockSize: 4,
+            resume: true,
+            onProgress: p => progress.push(p.loadedBytes)
+        });
+        expect(staged).to.have.members([blockId(1), blockId(2)]);
+        expect(committed).to.include(blockId(0)).and.include(blockId(2));
+        expect(progress.sort((a, b) => a - b)).to.be.eql([4, 8, 12]);
+    });
+
+    it('should download the ranges in parallel', async () => {
+        const saved: boolean[] = [];
+        await client.download('blocks.txt', newLocalPath, {
+            blockSize: 5,
+            concurrency: 2,
+            onProgress: () => saved.push(fs.existsSync(`${newLocalPath}.download.json`))
+        });
+        expect(fs.readFileSync(newLocalPath, 'utf8')).to.be.equal(content);
+        expect(saved, 'state file should be written only for resuming').to.not.include(true);
+        expect(fs.existsSync(`${newLocalPath}.download.json`), 'state file should not be left').to.be.false();
+    });
+
+    it('should report the size of the blob when downloading at once', async () => {
+        nock('https://accountname.blob.core.windows.net')
+            .head('/containerName/blocks.txt')
+            .reply(200, '', { 'Content-Length': ['12'], ETag: '0x8D7B9FC84AD5D1F' })
+            .get('/containerName/blocks.txt')
+            .reply(200, content, { 'Content-Length': ['12'], ETag: '0x8D7B9FC84AD5D1F' });
+        const totals: number[] = [];
+        await client.download('blocks.txt', newLocalPath, { onProgress: p => totals.push(p.totalBytes) });
+        expect(fs.readFileSync(newLocalPath, 'utf8')).to.be.equal(content);
+        expect(totals, 'the progress should be reported').to.not.be.empty();
+        expect(totals.every(t => t === 12), 'the total should be the content length').to.be.true();
+    });
+});
+
+describe('Read and write blobs by streams', () => {
+    let written: string;
+
+    before(() => {
+        nock('https://accountname.blob.core.windows.net')
+            .get('/containerName/log.txt')
+            .matchHeader('x-ms-range', 'bytes=2-5')
+            .reply(206, '2345', { 'Content-Length': ['4'], ETag: '0x8D7B9FC84AD5D1F' })
+            .put('/containerName/out.txt', (body: string) => {
+                written = body;
+                return true;
+            })
+            .reply(201);
+    });
+
+    it('should read a range of the blob', async () => {
+        const stream: NodeJS.ReadableStream = await client.createReadStream('log.txt', { start: 2, end: 5 });
+        expect((await StreamOperation.streamToBuffer(stream)).toString()).to.be.equal('2345');
+    });
+
+    it('should write a blob in memory', async () => {
+        await client.writeFile('out.txt', 'in memory');
+        expect(written).to.be.equal('in memory');
+    });
+});
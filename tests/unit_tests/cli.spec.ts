@@ -7,10 +7,14 @@ import { Util } from '@pai/commom/util';
 import * as chai from 'chai';
 import { expect } from 'chai';
 import dirtyChai from 'dirty-chai';
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
 import mockFs from 'mock-fs';
 
 import { fakeRestSrv as F } from '../common/restServer';
+import { testJobConfig, testJobConfigV1 } from '../common/test_data/testJobConfig';
 import { testJobStatus } from '../common/test_data/testJobStatus';
+import { testLocalStorage } from '../common/test_data/testStorages';
 
 /**
  * Unit tests for cli.
@@ -24,6 +28,16 @@ beforeEach(async () => {
             { cluster: OpenPAIBaseClient.parsePaiUri(F.cluster) }
         ])
     };
+    mockDirectory['/mnt/local-storage'] = {
+        'a.txt': 'a',
+        folder: { 'b.txt': 'b', sub: { 'c.txt': 'c' } }
+    };
+    mockDirectory['/local'] = { 'up.txt': 'up' };
+    mockDirectory['/jobs'] = {
+        'job.yaml': yaml.safeDump(testJobConfig),
+        'job_v1.json': JSON.stringify(testJobConfigV1),
+        'space.yaml': yaml.safeDump({ type: 'grid', parameters: { lr: [0.1, 0.01], layers: [2, 3] } })
+    };
     mockFs(mockDirectory);
 });
 
@@ -70,6 +84,108 @@ const testCases: ITestCase[] = [
             (r: any) => expect(r).to.be.eql(testJobStatus)
         ],
         dependencies: [F.queryJobStatus]
+    },
+    {
+        name: 'clone a job with overrides',
+        command: [
+            'clonej', F.alias, testJobStatus.name, '--name', 'cloned_job',
+            '--set', 'parameters.lr=0.1', 'defaults.virtualCluster=vc1'
+        ],
+        checkers: [
+            (r: any) => expect(r).to.be.equal('job cloned_job submitted')
+        ],
+        dependencies: [F.getJobConfig, F.createJob]
+    },
+    {
+        name: 'plan a sweep',
+        command: ['sweep', '--dry-run', F.alias, '/jobs/job.yaml', '/jobs/space.yaml', '-o', '/jobs/sweep.yaml'],
+        checkers: [
+            (r: any) => expect(yaml.safeLoad(fs.readFileSync('/jobs/sweep.yaml', 'utf8'))).to.be.eql(r),
+            (r: any) => expect(Object.values(r.jobs)).to.have.lengthOf(4)
+        ]
+    },
+    {
+        name: 'render a job config',
+        command: ['render', '/jobs/job.yaml'],
+        checkers: [
+            (r: any) => expect(r.worker.commands[0]).to.be.equal(
+                'bazel-bin/tensorflow_serving/example/mnist_saved_model /tmp/mnist_model'
+            )
+        ]
+    },
+    {
+        name: 'convert a v1 job config',
+        command: ['convert-config', '/jobs/job_v1.json', '-o', '/jobs/job_v2.yaml'],
+        checkers: [
+            (r: any) => expect(yaml.safeLoad(fs.readFileSync('/jobs/job_v2.yaml', 'utf8'))).to.be.eql(r.config),
+            (r: any) => expect(r.config.name).to.be.equal(testJobConfigV1.jobName)
+        ]
+    },
+    {
+        name: 'list a directory in storage',
+        command: ['ls', F.alias, `${testLocalStorage.name}:folder`],
+        checkers: [
+            (r: any) => expect(r.map((x: any) => x.name)).to.be.eql(['b.txt', 'sub']),
+            (r: any) => expect(r[1].type).to.be.equal('directory')
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'get status of a path in storage',
+        command: ['stat', F.alias, `${testLocalStorage.name}:a.txt`],
+        checkers: [
+            (r: any) => expect(r).to.include({ type: 'file', size: 1 })
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'make a directory in storage',
+        command: ['mkdir', F.alias, `${testLocalStorage.name}:new/folder`],
+        checkers: [
+            (r: any) => expect(fs.statSync('/mnt/local-storage/new/folder').isDirectory(), 'folder not created').to.be.true()
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'make a directory in storage with the mode',
+        command: ['mkdir', '-m', '700', F.alias, `${testLocalStorage.name}:private`],
+        checkers: [
+            (r: any) => expect((fs.statSync('/mnt/local-storage/private').mode % 0o1000).toString(8)).to.be.equal('700')
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'upload a file to storage',
+        command: ['cp', F.alias, '/local/up.txt', `${testLocalStorage.name}:folder/up.txt`],
+        checkers: [
+            (r: any) => expect(fs.readFileSync('/mnt/local-storage/folder/up.txt', 'utf8')).to.be.equal('up')
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'download a folder from storage',
+        command: ['cp', '-r', F.alias, `${testLocalStorage.name}:folder`, '/local/folder'],
+        checkers: [
+            (r: any) => expect(fs.readFileSync('/local/folder/sub/c.txt', 'utf8')).to.be.equal('c')
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'plan to sync a folder to storage',
+        command: ['sync', '--dry-run', '--delete', F.alias, '/local', `${testLocalStorage.name}:folder`],
+        checkers: [
+            (r: any) => expect(r.map((x: any) => x.path).sort()).to.be.eql(['b.txt', 'sub/c.txt', 'up.txt']),
+            (r: any) => expect(fs.existsSync('/mnt/local-storage/folder/up.txt'), 'should not upload in dry run').to.be.false()
+        ],
+        dependencies: [F.getLocalStorage]
+    },
+    {
+        name: 'delete a folder in storage',
+        command: ['rm', '-r', F.alias, `${testLocalStorage.name}:folder`],
+        checkers: [
+            (r: any) => expect(fs.readdirSync('/mnt/local-storage')).to.be.eql(['a.txt'])
+        ],
+        dependencies: [F.getLocalStorage]
     }
 ];
 
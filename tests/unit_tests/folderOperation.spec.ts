@@ -0,0 +1,257 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IFileInfo, IFolderProgress, ISyncAction } from '@pai/storage';
+import * as FolderOperation from '@pai/storage/clients/folderOperation';
+import { IStorageNodeClient } from '@pai/storage/models/storageOperation';
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as crypto from 'crypto';
+import dirtyChai from 'dirty-chai';
+import * as fs from 'fs-extra';
+import mockFs from 'mock-fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+/**
+ * Unit tests for the recursive folder operations.
+ */
+class MemoryClient implements IStorageNodeClient {
+    public mkdirAllowRecursive: boolean = false;
+    public files: Map<string, string> = new Map<string, string>();
+    public dirs: Set<string> = new Set<string>(['root']);
+    public mtimes: Map<string, Date> = new Map<string, Date>();
+    public running: number = 0;
+    public maxRunning: number = 0;
+
+    public async getinfo(pth: string): Promise<IFileInfo> {
+        if (this.dirs.has(pth)) {
+            return <IFileInfo>{ type: 'directory' };
+        }
+        if (this.files.has(pth)) {
+            return <IFileInfo>{
+                type: 'file',
+                size: this.files.get(pth)!.length,
+                mtime: this.mtimes.get(pth),
+                md5: crypto.createHash('md5').update(this.files.get(pth)!).digest('hex')
+            };
+        }
+        throw Object.assign(new Error(`ENOENT: no such file or directory, stat '${pth}'`), { code: 'ENOENT' });
+    }
+
+    public async listdir(pth: string): Promise<string[]> {
+        return Array.from(this.dirs).concat(Array.from(this.files.keys()))
+            .filter(p => path.posix.dirname(p) === pth)
+            .map(p => path.posix.basename(p));
+    }
+
+    public async makedir(pth: string): Promise<void> {
+        if (!this.dirs.has(path.posix.dirname(pth)) && path.posix.dirname(pth) !== '.') {
+            throw new Error(`NoParent: ${pth}`);
+        }
+        this.dirs.add(pth);
+    }
+
+    public async upload(localPath: string, remotePath: string): Promise<void> {
+        await this.transfer(async () => this.files.set(remotePath, await fs.readFile(localPath, 'utf8')));
+        this.mtimes.set(remotePath, new Date());
+    }
+
+    public async download(remotePath: string, localPath: string): Promise<void> {
+        await this.transfer(async () => fs.writeFile(localPath, this.files.get(remotePath)));
+    }
+
+    public async delete(pth: string): Promise<void> {
+        if (!this.files.delete(pth)) {
+            if (Array.from(this.files.keys()).some(p => p.startsWith(`${pth}/`))) {
+                throw new Error(`NotEmpty: ${pth}`);
+            }
+            this.dirs.delete(pth);
+        }
+    }
+
+    public async createReadStream(pth: string): Promise<NodeJS.ReadableStream> {
+        const stream: PassThrough = new PassThrough();
+        stream.end(this.files.get(pth));
+        return stream;
+    }
+
+    public async createWriteStream(pth: string): Promise<NodeJS.WritableStream> {
+        const stream: PassThrough = new PassThrough();
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => this.files.set(pth, Buffer.concat(chunks).toString()));
+        return stream;
+    }
+
+    private async transfer(func: () => Promise<any>): Promise<void> {
+        this.running++;
+        this.maxRunning = Math.max(this.maxRunning, this.running);
+        await new Promise<void>((resolve: () => void) => setTimeout(resolve, 5));
+        await func();
+        this.running--;
+    }
+}
+
+let client: MemoryClient;
+
+chai.use(dirtyChai);
+beforeEach(() => {
+    client = new MemoryClient();
+});
+
+describe('Upload a folder recursively', () => {
+    beforeEach(() => mockFs({
+        '/local/src': {
+            'a.py': 'a',
+            'b.txt': 'b',
+            sub: { 'c.py': 'c', deep: { 'd.py': 'd' } },
+            empty: {}
+        }
+    }));
+    afterEach(mockFs.restore);
+
+    it('should upload all files and folders', async () => {
+        const progress: IFolderProgress[] = [];
+        await FolderOperation.uploadFolder(client, '/local/src', 'root/dst', {
+            concurrency: 2,
+            onProgress: p => progress.push(p)
+        });
+        expect(Array.from(client.files.keys()).sort()).to.be.eql([
+            'root/dst/a.py', 'root/dst/b.txt', 'root/dst/sub/c.py', 'root/dst/sub/deep/d.py'
+        ]);
+        expect(client.dirs.has('root/dst/empty'), 'empty folder should be created').to.be.true();
+        expect(progress.length).to.be.equal(4);
+        expect(progress[3]).to.include({ completed: 4, total: 4 });
+        expect(client.maxRunning).to.be.equal(2);
+    });
+
+    it('should only upload the selected files', async () => {
+        await FolderOperation.uploadFolder(client, '/local/src', 'root/dst', {
+            include: ['**/*.py'],
+            exclude: ['sub/deep/**']
+        });
+        expect(Array.from(client.files.keys()).sort()).to.be.eql(['root/dst/a.py', 'root/dst/sub/c.py']);
+        expect(client.dirs.has('root/dst/empty'), 'unselected folder should be skipped').to.be.false();
+    });
+
+    it('should not start more files after a failure', async () => {
+        let started: number = 0;
+        client.upload = async () => {
+            started++;
+            throw new Error('Forbidden');
+        };
+        try {
+            await FolderOperation.uploadFolder(client, '/local/src', 'root/dst', { concurrency: 2 });
+            expect.fail('the error should be thrown');
+        } catch (err) {
+            expect(err.message).to.be.equal('Forbidden');
+        }
+        expect(started).to.be.equal(2);
+    });
+});
+
+describe('Download and delete a folder recursively', () => {
+    beforeEach(() => {
+        mockFs({ '/local': {} });
+        client.dirs = new Set<string>(['root', 'root/src', 'root/src/sub']);
+        client.files = new Map<string, string>([
+            ['root/src/a.py', 'a'], ['root/src/b.txt', 'b'], ['root/src/sub/c.py', 'c']
+        ]);
+    });
+    afterEach(mockFs.restore);
+
+    it('should download all files', async () => {
+        await FolderOperation.downloadFolder(client, 'root/src', '/local/dst');
+        expect(await fs.readFile('/local/dst/sub/c.py', 'utf8')).to.be.equal('c');
+        expect((await fs.readdir('/local/dst')).sort()).to.be.eql(['a.py', 'b.txt', 'sub']);
+    });
+
+    it('should download the selected files', async () => {
+        await FolderOperation.downloadFolder(client, 'root/src', '/local/dst', { exclude: ['*.txt'] });
+        expect((await fs.readdir('/local/dst')).sort()).to.be.eql(['a.py', 'sub']);
+    });
+
+    it('should delete the selected files only', async () => {
+        await FolderOperation.deleteFolder(client, 'root/src', { include: ['**/*.py'] });
+        expect(Array.from(client.files.keys())).to.be.eql(['root/src/b.txt']);
+        expect(client.dirs.has('root/src/sub'), 'folders should be kept').to.be.true();
+    });
+
+    it('should delete the whole folder', async () => {
+        await FolderOperation.deleteFolder(client, 'root/src');
+        expect(client.files).to.be.empty();
+        expect(Array.from(client.dirs)).to.be.eql(['root']);
+    });
+});
+
+describe('Sync a folder incrementally', () => {
+    const old: Date = new Date(1583205563000);
+    beforeEach(() => {
+        mockFs({
+            '/local/src': {
+                'same.txt': mockFs.file({ content: 'same', mtime: old }),
+                'touched.txt': mockFs.file({ content: 'abc', mtime: new Date() }),
+                'resized.txt': mockFs.file({ content: 'longer', mtime: old }),
+                sub: { 'new.txt': 'new' }
+            }
+        });
+        client.dirs = new Set<string>(['root', 'root/dst']);
+        client.files = new Map<string, string>([
+            ['root/dst/same.txt', 'same'], ['root/dst/touched.txt', 'xyz'],
+            ['root/dst/resized.txt', 'short'], ['root/dst/removed.txt', 'removed']
+        ]);
+        const uploaded: Date = new Date(old.getTime() + 1000);
+        client.mtimes = new Map<string, Date>(Array.from(client.files.keys()).map(k => [k, uploaded]));
+    });
+    afterEach(mockFs.restore);
+
+    it('should plan the changes in dry run', async () => {
+        const actions: ISyncAction[] = await FolderOperation.syncFolder(client, '/local/src', 'root/dst', {
+            dryRun: true,
+            delete: true
+        });
+        expect(actions).to.have.deep.members([
+            { action: 'upload', path: 'touched.txt', reason: 'mtime' },
+            { action: 'upload', path: 'resized.txt', reason: 'size' },
+            { action: 'upload', path: 'sub/new.txt', reason: 'new' },
+            { action: 'delete', path: 'removed.txt', reason: 'removed' }
+        ]);
+        expect(client.files.get('root/dst/touched.txt')).to.be.equal('xyz');
+    });
+
+    it('should compare the checksum if exposed', async () => {
+        const actions: ISyncAction[] = await FolderOperation.syncFolder(client, '/local/src', 'root/dst', {
+            dryRun: true,
+            checksum: true,
+            exclude: ['sub/**']
+        });
+        expect(actions).to.have.deep.members([
+            { action: 'upload', path: 'touched.txt', reason: 'md5' },
+            { action: 'upload', path: 'resized.txt', reason: 'size' }
+        ]);
+    });
+
+    it('should transfer the changed files only', async () => {
+        await FolderOperation.syncFolder(client, '/local/src', 'root/dst');
+        expect(client.files.get('root/dst/sub/new.txt')).to.be.equal('new');
+        expect(client.files.get('root/dst/touched.txt')).to.be.equal('abc');
+        expect(client.files.has('root/dst/removed.txt'), 'should not delete without opts.delete').to.be.true();
+
+        const actions: ISyncAction[] = await FolderOperation.syncFolder(client, '/local/src', 'root/dst', { delete: true });
+        expect(actions).to.be.eql([{ action: 'delete', path: 'removed.txt', reason: 'removed' }]);
+        expect(client.files.has('root/dst/removed.txt'), 'should delete the removed file').to.be.false();
+    });
+
+    it('should not plan against a remote folder failed to list', async () => {
+        client.listdir = async () => {
+            throw Object.assign(new Error('Forbidden'), { statusCode: 403 });
+        };
+        try {
+            await FolderOperation.syncFolder(client, '/local/src', 'root/dst', { dryRun: true, delete: true });
+            expect.fail('the error should be thrown');
+        } catch (err) {
+            expect(err.message).to.be.equal('Forbidden');
+        }
+    });
+});
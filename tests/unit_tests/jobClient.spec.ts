@@ -3,12 +3,18 @@
 
 import { IJobConfig as IJobConfigV1, JobClient as JobClientV1 } from '@api/v1';
 import {
-    IJobConfig, IJobInfo, IJobSshInfo, IJobStatus, IPAICluster, JobClient
+    IJobConfig, IJobEvents, IJobInfo, IJobSshInfo, IJobStatus, IJobStatusDetails, IPAICluster, ISweepJobStatus,
+    ISweepManifest, JobClient, JobTransition, JobWatcher, SweepParameters
 } from '@api/v2';
+import { cloneNameOf } from '@api/v2/clients/jobClone';
+import { sweepTrialsOf } from '@api/v2/clients/jobSweep';
+import { waitForCompletion } from '@api/v2/clients/jobWatcher';
+import { JobConfigValidationError } from '@protocol/v2';
 import * as chai from 'chai';
 import { expect } from 'chai';
 import dirtyChai from 'dirty-chai';
 import * as yaml from 'js-yaml';
+import lodash from 'lodash';
 import nock from 'nock';
 
 import { testJobConfig, testJobConfigV1 } from '../common/test_data/testJobConfig';
@@ -55,6 +61,100 @@ describe('List jobs with query', () => {
     }).timeout(10000);
 });
 
+describe('List jobs with filters and paging', () => {
+    const response: IJobInfo[] = testJobList;
+    before(() => nock(`http://${testUri}`).get('/api/v2/jobs').query({
+        username: 'core,test', vc: 'default', state: 'RUNNING,WAITING', keyword: 'mnist',
+        offset: '10', limit: '5', order: 'submissionTime,DESC'
+    }).reply(200, response));
+
+    it('should send the options as query parameters', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: IJobInfo[] = await jobClient.listJobs({
+            username: ['core', 'test'],
+            virtualCluster: 'default',
+            state: ['RUNNING', 'WAITING'],
+            keyword: 'mnist',
+            offset: 10,
+            limit: 5,
+            order: 'submissionTime,DESC'
+        });
+        expect(result).to.be.eql(response);
+    });
+});
+
+describe('Iterate jobs', () => {
+    let jobs: IJobInfo[];
+    before(() => {
+        jobs = [0, 1, 2, 3, 4].map(i => ({ ...testJobList[0], name: `job_${i}` }));
+    });
+    const mockPage = (offset: number, limit: number) => nock(`http://${testUri}`).get('/api/v2/jobs')
+        .query({ state: 'RUNNING', offset: String(offset), limit: String(limit) })
+        .reply(200, jobs.slice(offset, offset + limit));
+
+    it('should request the pages until the last one', async () => {
+        const pages: nock.Scope[] = [mockPage(0, 2), mockPage(2, 2), mockPage(4, 2)];
+        const jobClient: JobClient = new JobClient(cluster);
+        const iter: AsyncIterable<IJobInfo> = jobClient.listJobsIter({ state: 'RUNNING', pageSize: 2 });
+        const names: string[] = [];
+        for await (const job of iter) {
+            names.push(job.name);
+        }
+        expect(names).to.be.eql(jobs.map(job => job.name));
+        expect(pages.every(page => page.isDone()), 'all pages should be requested').to.be.true();
+    });
+
+    it('should stop at the limit of the iteration', async () => {
+        const pages: nock.Scope[] = [mockPage(1, 2), mockPage(3, 1)];
+        const jobClient: JobClient = new JobClient(cluster);
+        const iter: AsyncIterable<IJobInfo> = jobClient.listJobsIter({
+            state: 'RUNNING', pageSize: 2, offset: 1, limit: 3
+        });
+        const names: string[] = [];
+        for await (const job of iter) {
+            names.push(job.name);
+        }
+        expect(names).to.be.eql(['job_1', 'job_2', 'job_3']);
+        expect(pages.every(page => page.isDone()), 'all pages should be requested').to.be.true();
+    });
+
+    it('should not request the next page if the iteration is broken', async () => {
+        const first: nock.Scope = mockPage(0, 2);
+        const second: nock.Scope = mockPage(2, 2);
+        const jobClient: JobClient = new JobClient(cluster);
+        const iter: AsyncIterable<IJobInfo> = jobClient.listJobsIter({ state: 'RUNNING', pageSize: 2 });
+        for await (const job of iter) {
+            expect(job.name).to.be.equal('job_0');
+            break;
+        }
+        expect(first.isDone(), 'the first page should be requested').to.be.true();
+        expect(second.isDone(), 'the next page should not be requested').to.be.false();
+        nock.cleanAll();
+    });
+
+    it('should stop if the server ignores the paging', async () => {
+        nock(`http://${testUri}`).get('/api/v2/jobs').query(true).times(2).reply(200, jobs.slice(0, 2));
+        const jobClient: JobClient = new JobClient(cluster);
+        const iter: AsyncIterable<IJobInfo> = jobClient.listJobsIter({ pageSize: 2 });
+        const names: string[] = [];
+        for await (const job of iter) {
+            names.push(job.name);
+        }
+        expect(names).to.be.eql(['job_0', 'job_1']);
+        nock.cleanAll();
+    });
+
+    it('should reject an invalid page size', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        try {
+            await jobClient.listJobsIter({ pageSize: 0 }).next();
+            expect.fail('the page size should be rejected');
+        } catch (err) {
+            expect(err.message).to.include('InvalidPageSize');
+        }
+    });
+});
+
 describe('Get job status', () => {
     const response: IJobStatus = testJobStatus;
     const userName: string = 'core';
@@ -142,3 +242,386 @@ describe('Stop a job', () => {
         expect(result).to.be.eql(response);
     });
 });
+
+describe('Delete a job', () => {
+    const response: any = {
+        message: 'delete job tensorflow_serving_mnist_2019_6585ba19 successfully'
+    };
+    const userName: string = 'core';
+    const jobName: string = 'tensorflow_serving_mnist_2019_6585ba19';
+    before(() => nock(`http://${testUri}`).delete(`/api/v2/jobs/${userName}~${jobName}`).reply(202, response));
+
+    it('should delete the job', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: any = await jobClient.deleteJob(userName, jobName);
+        expect(result).to.be.eql(response);
+    });
+});
+
+describe('Get job ssh info', () => {
+    const response: IJobSshInfo = testJobSshInfo;
+    const userName: string = 'core';
+    const jobName: string = 'tensorflow_serving_mnist_2019_6585ba19';
+    before(() => nock(`http://${testUri}`).get(`/api/v2/jobs/${userName}~${jobName}/ssh`).reply(200, response));
+
+    it('should return the job ssh info', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: IJobSshInfo = await jobClient.getJobSshInfo(userName, jobName);
+        expect(result).to.be.eql(response);
+    });
+});
+
+describe('Get job events', () => {
+    const response: IJobEvents = {
+        totalCount: 1,
+        data: [{ type: 'Warning', reason: 'FailedScheduling', message: '0/1 nodes are available', count: 3 }]
+    };
+    const userName: string = 'core';
+    const jobName: string = 'tensorflow_serving_mnist_2019_6585ba19';
+    before(() => nock(`http://${testUri}`)
+        .get(`/api/v2/jobs/${userName}~${jobName}/events?type=Warning`).reply(200, response));
+
+    it('should return the warning events', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: IJobEvents = await jobClient.getJobEvents(userName, jobName, 'Warning');
+        expect(result).to.be.eql(response);
+    });
+});
+
+describe('Add and remove a job tag', () => {
+    const userName: string = 'core';
+    const jobName: string = 'tensorflow_serving_mnist_2019_6585ba19';
+
+    it('should send the tag', async () => {
+        const scope: nock.Scope = nock(`http://${testUri}`)
+            .put(`/api/v2/jobs/${userName}~${jobName}/tag`, { value: 'test' }).reply(200, { message: 'added' })
+            .delete(`/api/v2/jobs/${userName}~${jobName}/tag`, { value: 'test' }).reply(200, { message: 'deleted' });
+        const jobClient: JobClient = new JobClient(cluster);
+        await jobClient.addJobTag(userName, jobName, 'test');
+        await jobClient.deleteJobTag(userName, jobName, 'test');
+        expect(scope.isDone(), 'some requests are not sent').to.be.true();
+    });
+});
+
+describe('Watch a job', () => {
+    const userName: string = 'core';
+    const jobName: string = 'watched_job';
+    const snapshot = (state: IJobStatus['jobStatus']['state'], retries: number, taskState: string) => {
+        const status: IJobStatus = lodash.cloneDeep(testJobStatus);
+        status.jobStatus.state = state;
+        status.jobStatus.retries = retries;
+        status.taskRoles.worker.taskStatuses[0].taskState = taskState;
+        return status;
+    };
+
+    it('should emit the snapshots and transitions until completed', async () => {
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('WAITING', 0, 'WAITING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING', 0, 'RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING', 0, 'RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING', 1, 'WAITING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('SUCCEEDED', 1, 'SUCCEEDED'));
+        const jobClient: JobClient = new JobClient(cluster);
+        const watcher: JobWatcher = jobClient.watch(userName, jobName, { interval: 1 });
+        const transitions: JobTransition[] = [];
+        watcher.on('transition', (t: JobTransition) => transitions.push(t));
+        const states: string[] = [];
+        const snapshots: AsyncIterable<IJobStatus> = watcher;
+        for await (const status of snapshots) {
+            states.push(status.jobStatus.state);
+        }
+        expect(states).to.be.eql(['WAITING', 'RUNNING', 'RUNNING', 'RUNNING', 'SUCCEEDED']);
+        expect(transitions.map(t => t.type)).to.be.eql([
+            'state', 'state', 'task', 'retry', 'task', 'state', 'task', 'completed'
+        ]);
+        expect(transitions[2]).to.be.eql({
+            type: 'task', taskRole: 'worker', taskIndex: 0, from: 'WAITING', to: 'RUNNING'
+        });
+        expect(transitions[3]).to.include({ type: 'retry', from: 0, to: 1 });
+        expect(watcher.isRunning, 'should stop after completed').to.be.false();
+    });
+
+    it('should wait for the completion', async () => {
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING', 0, 'RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(503, 'Service Unavailable')
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('FAILED', 0, 'FAILED'));
+        const jobClient: JobClient = new JobClient({ ...cluster, retry_policy: { max_attempts: 1 } });
+        const details: IJobStatusDetails = await jobClient.waitForCompletion(userName, jobName, { interval: 1 });
+        expect(details.state).to.be.equal('FAILED');
+    });
+
+    it('should iterate a watcher which is already completed', async () => {
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING', 0, 'RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('SUCCEEDED', 0, 'SUCCEEDED'));
+        const jobClient: JobClient = new JobClient(cluster);
+        const watcher: JobWatcher = jobClient.watch(userName, jobName, { interval: 1 });
+        await waitForCompletion(watcher);
+        const states: string[] = [];
+        const snapshots: AsyncIterable<IJobStatus> = watcher;
+        for await (const status of snapshots) {
+            states.push(status.jobStatus.state);
+        }
+        expect(states).to.be.eql(['SUCCEEDED']);
+    });
+
+    it('should reject after the timeout', async () => {
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}`).times(100).reply(200, snapshot('RUNNING', 0, 'RUNNING'));
+        const jobClient: JobClient = new JobClient(cluster);
+        try {
+            await jobClient.waitForCompletion(userName, jobName, { interval: 5, timeout: 50 });
+            expect.fail('no error thrown');
+        } catch (err) {
+            expect(err.message).to.include('WaitTimeout');
+        }
+        nock.removeInterceptor({ hostname: 'openpai-js-sdk.test', path: `/rest-server/api/v2/jobs/${userName}~${jobName}` });
+    });
+
+    it('should fail after too many consecutive transient errors', async () => {
+        let polled: number = 0;
+        const listeners: Set<any> = new Set<any>();
+        const watcher: JobWatcher = new JobWatcher(
+            async () => {
+                polled++;
+                throw Object.assign(new Error('ServiceUnavailable'), { isRetryable: true });
+            },
+            {
+                interval: 1,
+                maxErrors: 3,
+                abortSignal: {
+                    aborted: false,
+                    addEventListener: (_: 'abort', listener: any) => listeners.add(listener),
+                    removeEventListener: (_: 'abort', listener: any) => listeners.delete(listener)
+                }
+            }
+        );
+        const errors: Error[] = [];
+        watcher.on('error', (err: Error) => errors.push(err));
+        await new Promise<void>((resolve: () => void) => watcher.on('end', resolve));
+        expect(polled).to.be.equal(3);
+        expect(errors.map(e => e.message)).to.be.eql(['ServiceUnavailable']);
+        expect(listeners.size, 'the abort listener should be removed').to.be.equal(0);
+    });
+});
+
+describe('Get task logs', () => {
+    const userName: string = 'core';
+    const jobName: string = 'logged_job';
+    const logHost: string = 'http://0.0.0.34';
+    const logPath: string = '/yarn/0.0.0.38:8042/node/containerlogs/container_e34_1565337391589_0002_01_000002/core';
+    const snapshot = (state: IJobStatus['jobStatus']['state'], containerLog?: string) => {
+        const status: IJobStatus = lodash.cloneDeep(testJobStatus);
+        status.jobStatus.state = state;
+        if (containerLog !== undefined) {
+            status.taskRoles.worker.taskStatuses[0].containerLog = containerLog;
+        }
+        return status;
+    };
+
+    it('should get the tail of a log stream', async () => {
+        nock(`http://${testUri}`).get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING'));
+        const log: nock.Scope = nock(logHost, { badheaders: ['authorization'] })
+            .get(`${logPath}/user.pai.stderr?start=-1024`).reply(200, 'error');
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: string = await jobClient.getTaskLogs(userName, jobName, 'worker', 0, {
+            stream: 'stderr', tailBytes: 1024
+        });
+        expect(result).to.be.equal('error');
+        expect(log.isDone(), 'the log should be requested').to.be.true();
+    });
+
+    it('should throw if the task does not exist or is not started', async () => {
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('WAITING', ''));
+        const jobClient: JobClient = new JobClient(cluster);
+        const errors: string[] = [];
+        for (const taskRole of ['ps', 'worker']) {
+            try {
+                await jobClient.getTaskLogs(userName, jobName, taskRole, 0);
+            } catch (err) {
+                errors.push(err.message.split(':')[0]);
+            }
+        }
+        expect(errors).to.be.eql(['NoTaskRole', 'NoTaskLog']);
+    });
+
+    it('should follow the log until the job is completed', async () => {
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('WAITING', ''))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('RUNNING'))
+            .get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('SUCCEEDED'));
+        nock(logHost)
+            .get(`${logPath}/user.pai.all?start=0`).reply(200, 'line 1\nline 2\n')
+            .get(`${logPath}/user.pai.all?start=14`).reply(200, 'line 3\n')
+            .get(`${logPath}/user.pai.all?start=21`).reply(200, '')
+            .get(`${logPath}/user.pai.all?start=21`).reply(200, '')
+            .get(`${logPath}/user.pai.all?start=21`).reply(200, 'line 4\n')
+            .get(`${logPath}/user.pai.all?start=28`).reply(200, '');
+        const jobClient: JobClient = new JobClient(cluster);
+        const chunks: AsyncIterable<string> = jobClient.followTaskLogs(userName, jobName, 'worker', 0, {
+            interval: 1, tailBytes: 7
+        });
+        const result: string[] = [];
+        for await (const chunk of chunks) {
+            result.push(chunk);
+        }
+        expect(result).to.be.eql(['line 2\n', 'line 3\n', 'line 4\n']);
+    });
+
+    it('should advance by bytes and keep the characters split between chunks', async () => {
+        const text: Buffer = Buffer.from('caf\u00e9 \u65e5\u672c\n');
+        nock(`http://${testUri}`).get(`/api/v2/jobs/${userName}~${jobName}`).reply(200, snapshot('SUCCEEDED'));
+        nock(logHost)
+            .get(`${logPath}/user.pai.all?start=0`).reply(200, text.slice(0, 4))
+            .get(`${logPath}/user.pai.all?start=4`).reply(200, text.slice(4, 8))
+            .get(`${logPath}/user.pai.all?start=8`).reply(200, text.slice(8))
+            .get(`${logPath}/user.pai.all?start=${text.length}`).reply(200, '');
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: string[] = [];
+        for await (const chunk of jobClient.followTaskLogs(userName, jobName, 'worker', 0)) {
+            result.push(chunk);
+        }
+        expect(result.join('')).to.be.equal(text.toString());
+        expect(result[0]).to.be.equal('caf');
+    });
+});
+
+describe('Clone a job', () => {
+    const userName: string = 'core';
+    const jobName: string = 'sdk_test_job';
+    let submitted: IJobConfig[];
+    beforeEach(() => {
+        submitted = [];
+        nock(`http://${testUri}`)
+            .get(`/api/v2/jobs/${userName}~${jobName}/config`).reply(200, yaml.safeDump(testJobConfig))
+            .post('/api/v2/jobs').reply(202, (_: string, body: string) => {
+                submitted.push(yaml.safeLoad(body));
+                return '';
+            });
+    });
+
+    it('should submit the job config with the overrides', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: IJobConfig = await jobClient.clone(userName, jobName, {
+            newName: 'cloned_job',
+            overrides: {
+                parameters: { lr: 0.1 },
+                taskRoles: { worker: { instances: 2, commands: ['python train.py'] } },
+                defaults: { virtualCluster: 'vc1' }
+            }
+        });
+        expect(submitted).to.be.eql([result]);
+        expect(result.name).to.be.equal('cloned_job');
+        expect(result.parameters).to.be.eql({ ...testJobConfig.parameters, lr: 0.1 });
+        expect(result.taskRoles.worker).to.include({ instances: 2, dockerImage: 'tf_serving_example' });
+        expect(result.taskRoles.worker.commands, 'arrays should be replaced').to.be.eql(['python train.py']);
+        expect(result.defaults!.virtualCluster).to.be.equal('vc1');
+        expect(testJobConfig.taskRoles.worker.instances, 'the original config should not be changed').to.be.equal(1);
+    });
+
+    it('should generate a unique name', async () => {
+        const jobClient: JobClient = new JobClient(cluster);
+        const result: IJobConfig = await jobClient.clone(userName, jobName);
+        expect(result.name).to.match(/^sdk_test_job_clone_[0-9a-f]{8}$/);
+        expect(cloneNameOf(result.name)).to.match(/^sdk_test_job_clone_[0-9a-f]{8}$/);
+        expect(submitted[0].name).to.be.equal(result.name);
+    });
+});
+
+describe('Sweep jobs', () => {
+    let submitted: IJobConfig[];
+    beforeEach(() => {
+        submitted = [];
+    });
+    const replySubmitted = (count: number) => nock(`http://${testUri}`).post('/api/v2/jobs').times(count).reply(
+        202, (_: string, body: string) => {
+            submitted.push(yaml.safeLoad(body));
+            return '';
+        }
+    );
+
+    it('should submit a job for each combination of the grid', async () => {
+        const scope: nock.Scope = replySubmitted(4);
+        const jobClient: JobClient = new JobClient(cluster);
+        const manifest: ISweepManifest = await jobClient.sweep(
+            testJobConfig, { type: 'grid', parameters: { lr: [0.1, 0.01], layers: [2, 3] } }, { concurrency: 2 }
+        );
+        expect(scope.isDone(), 'all jobs should be submitted').to.be.true();
+        expect(manifest).to.include({ userName: 'test', baseName: testJobConfig.name });
+        expect(Object.keys(manifest.jobs)).to.be.eql(
+            [0, 1, 2, 3].map(i => `${testJobConfig.name}_sweep_${manifest.sweepId}_${i}`)
+        );
+        expect(Object.values(manifest.jobs)).to.be.eql([
+            { lr: 0.1, layers: 2 }, { lr: 0.1, layers: 3 }, { lr: 0.01, layers: 2 }, { lr: 0.01, layers: 3 }
+        ]);
+        const job: IJobConfig = submitted.find(c => c.name === Object.keys(manifest.jobs)[3])!;
+        expect(job.parameters).to.be.eql({ ...testJobConfig.parameters, lr: 0.01, layers: 3 });
+        expect(manifest.errors, 'no submission should fail').to.be.undefined();
+    });
+
+    it('should sample the random space and keep the explicit list', () => {
+        const trials: SweepParameters[] = sweepTrialsOf({
+            type: 'random',
+            count: 20,
+            parameters: {
+                lr: { min: 0.0001, max: 0.1, log: true },
+                batchSize: { min: 16, max: 64, integer: true },
+                optimizer: ['sgd', 'adam']
+            }
+        });
+        expect(trials).to.have.lengthOf(20);
+        for (const trial of trials) {
+            expect(trial.lr).to.be.within(0.0001, 0.1);
+            expect(Number.isInteger(trial.batchSize), 'batchSize should be an integer').to.be.true();
+            expect(trial.batchSize).to.be.within(16, 64);
+            expect(trial.optimizer).to.be.oneOf(['sgd', 'adam']);
+        }
+        expect(sweepTrialsOf({ type: 'list', trials: [{ lr: 0.1 }, { lr: 0.01, layers: 3 }] })).to.be.eql([
+            { lr: 0.1 }, { lr: 0.01, layers: 3 }
+        ]);
+        expect(() => sweepTrialsOf({ type: 'grid', parameters: { lr: [] } })).to.throw('InvalidSweepSpace');
+        expect(() => sweepTrialsOf({ type: 'random', count: 0, parameters: { lr: [0.1] } })).to.throw('InvalidSweepSpace');
+        expect(() => sweepTrialsOf({ type: 'list', trials: [] })).to.throw('InvalidSweepSpace');
+    });
+
+    it('should validate all the jobs before submitting and support dry run', async () => {
+        const scope: nock.Scope = replySubmitted(1);
+        const jobClient: JobClient = new JobClient(cluster);
+        const invalid: IJobConfig = { ...testJobConfig, name: 'invalid job name' };
+        try {
+            await jobClient.sweep(invalid, { type: 'list', trials: [{ lr: 0.1 }] });
+            expect.fail('the jobs should not be submitted');
+        } catch (err) {
+            expect(err).to.be.instanceOf(JobConfigValidationError);
+        }
+        const manifest: ISweepManifest = await jobClient.sweep(
+            testJobConfig, { type: 'list', trials: [{ lr: 0.1 }] }, { dryRun: true }
+        );
+        expect(Object.keys(manifest.jobs)).to.have.lengthOf(1);
+        expect(scope.isDone(), 'no job should be submitted').to.be.false();
+        nock.cleanAll();
+    });
+
+    it('should keep the failed submissions and query the status with the manifest', async () => {
+        nock(`http://${testUri}`)
+            .post('/api/v2/jobs').reply(202)
+            .post('/api/v2/jobs').reply(400, { code: 'ConflictJobError', message: 'job exists' });
+        const jobClient: JobClient = new JobClient(cluster);
+        const manifest: ISweepManifest = await jobClient.sweep(
+            testJobConfig, { type: 'list', trials: [{ lr: 0.1 }, { lr: 0.01 }] }, { concurrency: 1 }
+        );
+        const [first, second] = Object.keys(manifest.jobs);
+        expect(Object.keys(manifest.errors!)).to.be.eql([second]);
+
+        nock(`http://${testUri}`).get(`/api/v2/jobs/test~${first}`).reply(200, testJobStatus);
+        const status: ISweepJobStatus[] = await jobClient.getSweepStatus(manifest);
+        expect(status.map(s => s.jobName)).to.be.eql([first, second]);
+        expect(status[0]).to.include({ parameters: manifest.jobs[first] });
+        expect(status[0].status).to.be.eql(testJobStatus.jobStatus);
+        expect(status[1].error).to.be.equal(manifest.errors![second]);
+    });
+});
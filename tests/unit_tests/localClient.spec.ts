@@ -0,0 +1,106 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IFileInfo, IFolderProgress, LocalClient } from '@pai/storage';
+import * as StreamOperation from '@pai/storage/clients/streamOperation';
+import { IStorageNodeClient } from '@pai/storage/models/storageOperation';
+import * as chai from 'chai';
+import { expect } from 'chai';
+import dirtyChai from 'dirty-chai';
+import * as fs from 'fs-extra';
+import mockFs from 'mock-fs';
+
+/**
+ * Unit tests for localClient.
+ */
+let client: LocalClient;
+
+chai.use(dirtyChai);
+beforeEach(() => {
+    client = new LocalClient({ root: '/mnt/storage' });
+});
+
+describe('Access local file system', () => {
+    beforeEach(() => mockFs({
+        '/mnt/storage': {
+            'a.txt': mockFs.file({
+                content: 'content',
+                mode: 0o640,
+                uid: 1000,
+                gid: 100,
+                atime: new Date(1583205563000)
+            }),
+            folder: { 'b.txt': 'b', sub: { 'c.txt': 'c' } }
+        },
+        '/local': {}
+    }));
+    afterEach(mockFs.restore);
+
+    it('should fill every field of file info', async () => {
+        const info: IFileInfo = await client.getinfo('a.txt');
+        expect(info).to.include({ mode: '640', owner: '1000', group: '100', size: 7, type: 'file' });
+        expect(info.blksize).to.be.a('number');
+        expect(info.atime.getTime()).to.be.equal(1583205563000);
+    });
+
+    it('should not access the path outside of the root', async () => {
+        expect(await client.listdir('../../folder')).to.be.eql(['b.txt', 'sub']);
+    });
+
+    it('should download and delete a folder natively', async () => {
+        const progress: IFolderProgress[] = [];
+        await client.downloadFolder('folder', '/local/folder', { onProgress: p => progress.push(p) });
+        expect(await fs.readFile('/local/folder/sub/c.txt', 'utf8')).to.be.equal('c');
+        expect(progress.map(p => p.path).sort()).to.be.eql(['b.txt', 'sub/c.txt']);
+        expect(progress[1]).to.include({ completed: 2, total: 2 });
+
+        await client.deleteFolder('folder');
+        expect(await client.listdir('')).to.be.eql(['a.txt']);
+    });
+
+    it('should upload a folder natively', async () => {
+        await client.uploadFolder('/mnt/storage/folder', 'copied');
+        expect(await client.listdir('copied/sub')).to.be.eql(['c.txt']);
+    });
+});
+
+describe('Read and write local files by streams', () => {
+    beforeEach(() => mockFs({ '/mnt/storage': { 'log.txt': '0123456789' } }));
+    afterEach(mockFs.restore);
+
+    it('should read a range of the file', async () => {
+        const stream: NodeJS.ReadableStream = await client.createReadStream('log.txt', { start: 2, end: 5 });
+        expect((await StreamOperation.streamToBuffer(stream)).toString()).to.be.equal('2345');
+    });
+
+    it('should write a file in a new folder', async () => {
+        await StreamOperation.writeFile(client, 'new/out.txt', 'streamed');
+        expect(await client.readFile('new/out.txt')).to.be.eql(Buffer.from('streamed'));
+        await client.writeFile('log.txt', 'overwritten');
+        expect(await fs.readFile('/mnt/storage/log.txt', 'utf8')).to.be.equal('overwritten');
+    });
+
+    it('should emulate the streams by download and upload', async () => {
+        const basic: IStorageNodeClient = {
+            mkdirAllowRecursive: true,
+            getinfo: async p => client.getinfo(p),
+            listdir: async p => client.listdir(p),
+            makedir: async p => client.makedir(p),
+            upload: async (l, r) => client.upload(l, r),
+            download: async (r, l) => client.download(r, l),
+            delete: async p => client.delete(p)
+        };
+        const stream: NodeJS.ReadableStream = await StreamOperation.createReadStream(basic, 'log.txt', { start: 2, end: 5 });
+        expect((await StreamOperation.streamToBuffer(stream)).toString()).to.be.equal('2345');
+        await StreamOperation.writeFile(basic, 'log.txt', 'uploaded');
+        expect(await fs.readFile('/mnt/storage/log.txt', 'utf8')).to.be.equal('uploaded');
+    });
+});
+
+describe('Open mounted storages', () => {
+    it('should map the mount root', () => {
+        expect(() => LocalClient.fromMountedStorage({ address: '//10.0.0.1/share' })).to.throw('NotMounted');
+        expect(LocalClient.fromMountedStorage({ address: '//10.0.0.1/share', mountRoot: '/mnt/share' }))
+            .to.be.instanceOf(LocalClient);
+    });
+});
@@ -0,0 +1,285 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IPAICluster, JobClient } from '@api/v2';
+import { IJobConfig as IJobConfigV1 } from '@protocol/v1';
+import {
+    checkJobConfig, convertFromV1, renderJobConfig, validateJobConfig, IConversionResult, IJobConfig,
+    IJobConfigCheckResult, IJobConfigError, JobBuilder, JobConfigValidationError, SECRET_MASK, V1_DOCKER_IMAGE
+} from '@protocol/v2';
+import * as chai from 'chai';
+import { expect } from 'chai';
+import dirtyChai from 'dirty-chai';
+import lodash from 'lodash';
+import nock from 'nock';
+
+import { testJobConfig, testJobConfigV1 } from '../common/test_data/testJobConfig';
+
+/**
+ * Unit tests for the job protocol.
+ */
+chai.use(dirtyChai);
+
+const testUri: string = 'openpai-js-sdk.test/rest-server';
+
+const cluster: IPAICluster = {
+    rest_server_uri: testUri,
+    token: 'token',
+    username: 'test'
+};
+
+describe('Validate job config', () => {
+    let config: IJobConfig;
+    beforeEach(() => {
+        config = lodash.cloneDeep(testJobConfig);
+    });
+
+    it('should accept a valid job config', () => {
+        expect(validateJobConfig(config)).to.be.empty();
+    });
+
+    it('should report the schema violations with JSON paths', () => {
+        const worker: any = config.taskRoles.worker;
+        worker.instance = 2;
+        delete worker.dockerImage;
+        worker.resourcePerInstance.gpu = -1;
+        (config as any).type = 'component';
+        config.taskRoles['bad role'] = config.taskRoles.worker;
+        const result: IJobConfigCheckResult = checkJobConfig(config);
+        expect(result.errors.map(e => e.path).sort()).to.be.eql([
+            '$.taskRoles.worker.dockerImage',
+            '$.taskRoles.worker.resourcePerInstance.gpu',
+            '$.taskRoles[\'bad role\']',
+            '$.type'
+        ].sort());
+        expect(result.errors.find(e => e.path === '$.taskRoles.worker.dockerImage')!.message).to.be.equal('is required');
+        expect(result.errors.find(e => e.path === '$.taskRoles[\'bad role\']')!.message).to.be.equal('is not allowed');
+        expect(result.warnings).to.be.eql([
+            { path: '$.taskRoles.worker.instance', message: 'is unknown to the job protocol' }
+        ]);
+        expect(validateJobConfig(config)).to.be.eql(result.errors);
+    });
+
+    it('should report the broken references', () => {
+        config.taskRoles.worker.dockerImage = 'missing_image';
+        config.taskRoles.worker.data = 'tf_serving_example';
+        config.deployments = [{ name: 'prod', taskRoles: { ps: { preCommands: [], postCommands: [] } } }];
+        config.defaults = { deployment: 'dev' };
+        const errors: IJobConfigError[] = validateJobConfig(config);
+        expect(errors.map(e => e.path)).to.be.eql([
+            '$.taskRoles.worker.dockerImage',
+            '$.taskRoles.worker.data',
+            '$.deployments[0].taskRoles.ps',
+            '$.defaults.deployment'
+        ]);
+        expect(errors[1].message).to.include('type data');
+    });
+});
+
+describe('Submit an invalid job', () => {
+    it('should throw before submitting', async () => {
+        const scope: nock.Scope = nock(`http://${testUri}`).post('/api/v2/jobs').reply(202);
+        const jobClient: JobClient = new JobClient(cluster);
+        const config: IJobConfig = { ...testJobConfig, name: 'invalid job name' };
+        try {
+            await jobClient.createJob(config);
+            expect.fail('the job should not be submitted');
+        } catch (err) {
+            expect(err).to.be.instanceOf(JobConfigValidationError);
+            expect(err.errors.map((e: IJobConfigError) => e.path)).to.be.eql(['$.name']);
+        }
+        expect(scope.isDone(), 'the job should not be submitted').to.be.false();
+
+        await jobClient.createJob(config, false);
+        expect(scope.isDone(), 'the job should be submitted without validation').to.be.true();
+    });
+
+    it('should submit a job with the fields unknown to the schema', async () => {
+        const scope: nock.Scope = nock(`http://${testUri}`).post('/api/v2/jobs').reply(202);
+        const jobClient: JobClient = new JobClient(cluster);
+        const config: any = lodash.cloneDeep(testJobConfig);
+        config.newField = 'value';
+        config.taskRoles.worker.extraContainerOptions = { gpuType: 'V100' };
+        expect(checkJobConfig(config).warnings.map(w => w.path)).to.be.eql([
+            '$.newField', '$.taskRoles.worker.extraContainerOptions.gpuType'
+        ]);
+        await jobClient.createJob(config);
+        expect(scope.isDone(), 'the job should be submitted').to.be.true();
+    });
+});
+
+describe('Render job config', () => {
+    let config: IJobConfig;
+    beforeEach(() => {
+        config = {
+            protocolVersion: 2,
+            name: 'render_job',
+            type: 'job',
+            parameters: { lr: 0.1, layers: [64, 32] },
+            secrets: { token: 'secret-token' },
+            prerequisites: [
+                { name: 'image', type: 'dockerimage', uri: 'openpai/standard:python_3.6-pytorch_1.2.0-gpu' },
+                { name: 'mnist', type: 'data', uri: ['/data/mnist/train', '/data/mnist/test'] },
+                { name: 'train', type: 'script', uri: 'https://github.com/microsoft/pai.git' }
+            ],
+            taskRoles: {
+                worker: {
+                    dockerImage: 'image',
+                    data: 'mnist',
+                    script: 'train',
+                    resourcePerInstance: { cpu: 1, memoryMB: 1024, gpu: 0 },
+                    commands: [
+                        'git clone <% $script.uri %> code',
+                        'python train.py --lr <% $parameters.lr %> --layers \'<% $parameters.layers %>\' --data <% $data.uri[0] %>',
+                        'curl -H "token: <% $secrets.token %>" <% $output.uri %>'
+                    ]
+                },
+                ps: {
+                    dockerImage: 'image',
+                    resourcePerInstance: { cpu: 1, memoryMB: 1024, gpu: 0 },
+                    commands: ['python ps.py --data <% $data.uri[0] %>']
+                }
+            },
+            deployments: [
+                { name: 'local', taskRoles: { worker: { preCommands: ['echo <% $parameters.lr %>'], postCommands: ['echo done'] } } }
+            ],
+            defaults: { deployment: 'local' }
+        };
+    });
+
+    it('should render the references in the scope of each task role', () => {
+        const rendered: any = renderJobConfig(config);
+        expect(rendered.worker.dockerImage).to.be.equal('openpai/standard:python_3.6-pytorch_1.2.0-gpu');
+        expect(rendered.worker.commands).to.be.eql([
+            'echo 0.1',
+            'git clone https://github.com/microsoft/pai.git code',
+            'python train.py --lr 0.1 --layers \'[64,32]\' --data /data/mnist/train',
+            `curl -H "token: ${SECRET_MASK}" <% $output.uri %>`,
+            'echo done'
+        ]);
+        expect(rendered.worker.unresolved).to.be.eql(['<% $output.uri %>']);
+        expect(rendered.ps.commands, '$data is not selected by ps').to.be.eql(['python ps.py --data <% $data.uri[0] %>']);
+    });
+
+    it('should show the secrets and select the deployment if required', () => {
+        config.deployments!.push({ name: 'empty', taskRoles: {} });
+        const rendered: any = renderJobConfig(config, { deployment: 'empty', showSecrets: true });
+        expect(rendered.worker.commands).to.have.lengthOf(3);
+        expect(rendered.worker.commands[2]).to.include('token: secret-token');
+        expect(() => renderJobConfig(config, { deployment: 'cloud' })).to.throw('NoDeployment');
+    });
+});
+
+describe('Convert v1 job config', () => {
+    it('should convert a v1 job config to a valid v2 one', () => {
+        const result: IConversionResult = convertFromV1(testJobConfigV1);
+        const config: IJobConfig = result.config;
+        expect(validateJobConfig(config)).to.be.empty();
+        expect(config.name).to.be.equal(testJobConfigV1.jobName);
+        expect(config.prerequisites).to.be.eql([
+            { name: V1_DOCKER_IMAGE, type: 'dockerimage', uri: testJobConfigV1.image }
+        ]);
+        expect(config.taskRoles.task).to.be.eql({
+            instances: 1,
+            dockerImage: V1_DOCKER_IMAGE,
+            resourcePerInstance: { cpu: 1, memoryMB: 1000, gpu: 0 },
+            commands: [
+                'export PAI_CODE_DIR=\'<% $parameters.codeDir %>\'',
+                'export PAI_DATA_DIR=\'<% $parameters.dataDir %>\'',
+                'export PAI_OUTPUT_DIR=\'<% $parameters.outputDir %>\'',
+                testJobConfigV1.taskRoles[0].command
+            ]
+        });
+        expect(config.parameters).to.include({ codeDir: testJobConfigV1.codeDir });
+        expect(result.issues.map(i => i.path)).to.be.eql(['$.codeDir', '$.dataDir', '$.outputDir']);
+    });
+
+    it('should map the optional keys and report the unknown ones', () => {
+        const v1: IJobConfigV1 = {
+            ...testJobConfigV1,
+            virtualCluster: 'vc1',
+            retryCount: 2,
+            jobEnvs: { MODE: 'debug' },
+            authFile: 'hdfs://auth',
+            gpuType: 'K80',
+            taskRoles: [{
+                ...testJobConfigV1.taskRoles[0],
+                shmMB: 128,
+                minFailedTaskCount: 1,
+                portList: [{ label: 'http', beginAt: 8080, portNumber: 1 }],
+                killAllOnCompletedTaskNumber: 1
+            } as any]
+        };
+        const result: IConversionResult = convertFromV1(v1);
+        const config: IJobConfig = result.config;
+        expect(validateJobConfig(config)).to.be.empty();
+        expect(config.defaults).to.be.eql({ virtualCluster: 'vc1' });
+        expect(config.jobRetryCount).to.be.equal(2);
+        expect(config.taskRoles.task.commands).to.include('export MODE=\'<% $parameters.MODE %>\'');
+        expect(config.taskRoles.task.extraContainerOptions).to.be.eql({ shmMB: 128 });
+        expect(config.taskRoles.task.completion).to.be.eql({ minFailedInstances: 1 });
+        expect(config.taskRoles.task.resourcePerInstance.ports).to.be.eql({ http: 1 });
+        expect(config.extras!.v1).to.be.eql({ gpuType: 'K80', taskRoles: { task: { killAllOnCompletedTaskNumber: 1 } } });
+        expect(result.issues.map(i => i.path)).to.be.eql([
+            '$.codeDir', '$.dataDir', '$.outputDir', '$.authFile',
+            '$.taskRoles[0].portList[0].beginAt', '$.taskRoles[0].killAllOnCompletedTaskNumber', '$.gpuType'
+        ]);
+    });
+
+    it('should export the environment variables in single quotes', () => {
+        const result: IConversionResult = convertFromV1({
+            ...testJobConfigV1, jobEnvs: { GREETING: 'say "hi" $(whoami)', NAME: 'it\'s' }
+        });
+        expect(result.config.taskRoles.task.commands).to.include.members([
+            'export GREETING=\'<% $parameters.GREETING %>\'', 'export NAME=\'<% $parameters.NAME %>\''
+        ]);
+        expect(result.issues.filter(i => i.path.startsWith('$.jobEnvs')).map(i => i.path)).to.be.eql(['$.jobEnvs.NAME']);
+    });
+});
+
+describe('Build job config', () => {
+    it('should build a valid job config fluently', () => {
+        const config: IJobConfig = JobBuilder.create('mnist_job')
+            .image('pytorch', 'openpai/standard:python_3.6-pytorch_1.2.0-gpu')
+            .parameter('epochs', 10)
+            .taskRole('worker', r => r.instances(4).gpu(1).cpu(4).memoryMB(8192).port('http')
+                .data('mnist', '/data/mnist').command('python train.py --epochs <% $parameters.epochs %>'))
+            .taskRole('ps', r => r.image('python', 'python:3.6').data('mnist').command('python ps.py'))
+            .deployment('local', { worker: { preCommands: ['pip install torchvision'] } })
+            .virtualCluster('vc1')
+            .build();
+        expect(validateJobConfig(config)).to.be.empty();
+        expect(config.prerequisites!.map(p => `${p.type}:${p.name}`)).to.be.eql([
+            'dockerimage:pytorch', 'data:mnist', 'dockerimage:python'
+        ]);
+        expect(config.taskRoles.worker).to.be.eql({
+            instances: 4,
+            dockerImage: 'pytorch',
+            data: 'mnist',
+            resourcePerInstance: { cpu: 4, memoryMB: 8192, gpu: 1, ports: { http: 1 } },
+            commands: ['python train.py --epochs <% $parameters.epochs %>']
+        });
+        expect(config.taskRoles.ps.dockerImage).to.be.equal('python');
+        expect(config.defaults).to.be.eql({ virtualCluster: 'vc1' });
+    });
+
+    it('should reject the invalid names and references', () => {
+        expect(() => JobBuilder.create('bad name')).to.throw('InvalidName');
+        expect(() => JobBuilder.create('job').taskRole('bad/role', r => r)).to.throw('InvalidName');
+        expect(() => JobBuilder.create('job').taskRole('worker', r => r.data('missing'))).to.throw('NoPrerequisite');
+        expect(() => JobBuilder.create('job').image('img', 'a').taskRole('worker', r => r.image('img', 'b')))
+            .to.throw('ConflictPrerequisite');
+    });
+
+    it('should validate the built job config', () => {
+        try {
+            JobBuilder.create('job').image('img', 'python:3.6').taskRole('worker', r => r.cpu(0)).build();
+            expect.fail('the job config should be invalid');
+        } catch (err) {
+            expect(err).to.be.instanceOf(JobConfigValidationError);
+            expect(err.errors.map((e: IJobConfigError) => e.path).sort()).to.be.eql([
+                '$.taskRoles.worker.commands', '$.taskRoles.worker.resourcePerInstance.cpu'
+            ]);
+        }
+    });
+});
@@ -1,11 +1,20 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT License.
 
-import { IPAICluster } from '@api/v2';
+import { IPAICluster, IStorageDetail, StorageNode } from '@api/v2';
+import {
+    AzureBlobClient, IDirEntry, IFileInfo, ILocalCfg, IStorageNodeClient, IWalkEntry, LocalClient,
+    StorageNode as BaseStorageNode
+} from '@pai/storage';
 import * as chai from 'chai';
+import { expect } from 'chai';
 import dirtyChai from 'dirty-chai';
+import * as fs from 'fs-extra';
+import mockFs from 'mock-fs';
 import nock from 'nock';
 
+import { testAzureBlobInfoShareKey } from '../common/test_data/testStorages';
+
 /**
  * Unit tests for storageClient.
  */
@@ -17,5 +26,94 @@ const cluster: IPAICluster = {
     token: 'token'
 };
 
+const testNfsInfo: IStorageDetail = {
+    name: 'nfsStorage',
+    share: true,
+    volumeName: 'nfsVol',
+    type: 'nfs',
+    data: {
+        server: '10.0.0.1',
+        path: '/data'
+    }
+};
+
 chai.use(dirtyChai);
 beforeEach(() => nock(`http://${testUri}`).post('/api/v2/authn/basic/login').reply(200, { token: 'token' }));
+
+describe('Dispatch storage backends', () => {
+    it('should create an azure blob client', () => {
+        const node: StorageNode = new StorageNode(testAzureBlobInfoShareKey);
+        expect(node.client).to.be.instanceOf(AzureBlobClient);
+    });
+
+    it('should throw for the storage type without backend', () => {
+        const detail: IStorageDetail = { ...testNfsInfo, type: 'azureFile' };
+        expect(() => new StorageNode(detail)).to.throw('NotImplemented');
+    });
+
+    it('should require the local mount point of nfs', () => {
+        expect(() => new StorageNode(testNfsInfo)).to.throw('NotMounted');
+        const node: StorageNode = new StorageNode({
+            ...testNfsInfo, data: { server: '10.0.0.1', path: '/data', mountRoot: '/mnt/nfs' }
+        });
+        expect(node.client).to.be.instanceOf(LocalClient);
+    });
+
+    it('should use the registered backend', () => {
+        const fakeClient: IStorageNodeClient = <IStorageNodeClient>{ mkdirAllowRecursive: true };
+        BaseStorageNode.registerBackend('other', (data: ILocalCfg) => fakeClient);
+        const node: StorageNode = new StorageNode({ ...testNfsInfo, type: 'other', data: { root: '/mnt/other' } });
+        expect(node.client).to.be.equal(fakeClient);
+        expect(BaseStorageNode.registeredBackends()).to.include.members(['azureBlob', 'hdfs', 'local', 'nfs', 'other']);
+    });
+
+    after(() => BaseStorageNode.unregisterBackend('other'));
+});
+
+describe('Access local storage', () => {
+    beforeEach(() => mockFs({
+        '/mnt/nfs/data': { 'a.txt': 'a' },
+        '/local/src': { 'b.txt': 'b', sub: { 'c.txt': 'c' } }
+    }));
+    afterEach(mockFs.restore);
+
+    it('should access the files under mount point', async () => {
+        const node: StorageNode = new StorageNode({ ...testNfsInfo, data: { server: '', path: '', mountRoot: '/mnt/nfs' } });
+        expect(await node.listdir('data')).to.be.eql(['a.txt']);
+        const info: IFileInfo = await node.getinfo('data/a.txt');
+        expect(info.type).to.be.equal('file');
+
+        await node.uploadFolder('/local/src', 'data/src');
+        expect(await fs.readFile('/mnt/nfs/data/src/sub/c.txt', 'utf8')).to.be.equal('c');
+        await node.deleteFolder('data/src');
+        expect(await node.listdir('data')).to.be.eql(['a.txt']);
+    });
+
+    it('should check the existence of paths', async () => {
+        const node: StorageNode = new StorageNode({ ...testNfsInfo, data: { server: '', path: '', mountRoot: '/mnt/nfs' } });
+        expect(await node.exists('data/a.txt'), 'file should exist').to.be.true();
+        expect(await node.isdir('data/a.txt'), 'file is not a directory').to.be.false();
+        expect(await node.isdir('data'), 'folder should be a directory').to.be.true();
+        expect(await node.exists('data/missing.txt'), 'missing file should not exist').to.be.false();
+        expect(await node.isdir('missing'), 'missing folder is not a directory').to.be.false();
+    });
+
+    it('should list and walk with the info of entries', async () => {
+        const node: StorageNode = new StorageNode({ ...testNfsInfo, data: { server: '', path: '', mountRoot: '/local' } });
+        const entries: IDirEntry[] = await node.listdir('src', { withInfo: true });
+        expect(entries.map(e => [e.name, e.type])).to.be.eql([['b.txt', 'file'], ['sub', 'directory']]);
+
+        const walked: IWalkEntry[] = [];
+        for await (const entry of node.walk('src')) {
+            walked.push(entry);
+        }
+        expect(walked.map(e => e.path)).to.be.eql(['src/b.txt', 'src/sub', 'src/sub/c.txt']);
+        expect(walked[2].info.size).to.be.equal(1);
+
+        const shallow: string[] = [];
+        for await (const entry of node.walk('src', { maxDepth: 1, filter: e => e.info.type === 'directory' })) {
+            shallow.push(entry.path);
+        }
+        expect(shallow).to.be.eql(['src/sub']);
+    });
+});
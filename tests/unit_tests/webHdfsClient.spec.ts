@@ -0,0 +1,226 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT License.
+
+import { IDirEntry, IFileInfo, WebHdfsClient } from '@pai/storage';
+import * as StreamOperation from '@pai/storage/clients/streamOperation';
+import * as chai from 'chai';
+import { expect } from 'chai';
+import dirtyChai from 'dirty-chai';
+import * as fs from 'fs';
+import mockFs from 'mock-fs';
+import nock from 'nock';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+    testHdfsMountInfo,
+    testHdfsServer
+} from '../common/test_data/testStorages';
+
+/**
+ * Unit tests for webHdfsClient.
+ */
+const namenode: string = 'http://namenode.test:9870';
+const datanode: string = 'http://datanode.test:9864';
+let client: WebHdfsClient;
+
+const fileStatus = (suffix: string, type: 'FILE' | 'DIRECTORY') => ({
+    accessTime: type === 'FILE' ? 1583205563000 : 0,
+    blockSize: type === 'FILE' ? 134217728 : 0,
+    group: 'supergroup',
+    length: type === 'FILE' ? 12 : 0,
+    modificationTime: 1583205563000,
+    owner: 'core',
+    pathSuffix: suffix,
+    permission: type === 'FILE' ? '644' : '755',
+    replication: type === 'FILE' ? 3 : 0,
+    type: type
+});
+
+chai.use(dirtyChai);
+beforeEach(() => {
+    client = new WebHdfsClient(testHdfsMountInfo, testHdfsServer);
+});
+
+describe('Get status of a path in hdfs', () => {
+    before(() => {
+        nock(namenode)
+            .get('/webhdfs/v1/users/core/folder/test.txt?op=GETFILESTATUS&user.name=core')
+            .reply(200, { FileStatus: fileStatus('', 'FILE') })
+            .get('/webhdfs/v1/users/core/folder?op=GETFILESTATUS&user.name=core')
+            .reply(200, { FileStatus: fileStatus('', 'DIRECTORY') })
+            .get('/webhdfs/v1/users/core/missing?op=GETFILESTATUS&user.name=core')
+            .reply(404, {
+                RemoteException: {
+                    exception: 'FileNotFoundException',
+                    javaClassName: 'java.io.FileNotFoundException',
+                    message: 'File does not exist: /users/core/missing'
+                }
+            });
+    });
+
+    it('should be a file', async () => {
+        const res: IFileInfo = await client.getinfo('folder/test.txt');
+        expect(res.type).to.be.equal('file');
+        expect(res.size).to.be.equal(12);
+        expect(res.mode).to.be.equal('644');
+        expect(res.owner).to.be.equal('core');
+    });
+
+    it('should be a folder', async () => {
+        const res: IFileInfo = await client.getinfo('folder');
+        expect(res.type).to.be.equal('directory');
+    });
+
+    it('should throw the remote exception', async () => {
+        try {
+            await client.getinfo('missing');
+            expect.fail('no error thrown');
+        } catch (err) {
+            expect(err.name).to.be.equal('FileNotFoundException');
+        }
+    });
+});
+
+describe('List directory of a path in hdfs', () => {
+    before(() => {
+        nock(namenode)
+            .get('/webhdfs/v1/users/core/folder?op=LISTSTATUS&user.name=core')
+            .times(2)
+            .reply(200, {
+                FileStatuses: {
+                    FileStatus: [fileStatus('a.txt', 'FILE'), fileStatus('sub', 'DIRECTORY')]
+                }
+            });
+    });
+
+    it('should return a list', async () => {
+        const res: string[] = await client.listdir('folder');
+        expect(res).to.be.eql(['a.txt', 'sub']);
+    });
+
+    it('should return the entries with info', async () => {
+        const res: IDirEntry[] = await client.listdirWithInfo('folder');
+        expect(res.map(e => [e.name, e.type, e.size])).to.be.eql([['a.txt', 'file', 12], ['sub', 'directory', 0]]);
+    });
+});
+
+describe('Create folder and delete in hdfs', () => {
+    let scope: nock.Scope;
+    before(() => {
+        scope = nock(namenode)
+            .put('/webhdfs/v1/users/core/newFolder?op=MKDIRS&user.name=core&permission=755')
+            .reply(200, { boolean: true })
+            .delete('/webhdfs/v1/users/core/newFolder?op=DELETE&user.name=core&recursive=false')
+            .reply(200, { boolean: true })
+            .delete('/webhdfs/v1/users/core/oldFolder?op=DELETE&user.name=core&recursive=true')
+            .reply(200, { boolean: true })
+            .delete('/webhdfs/v1/users/core/a%20%231%3F.txt?op=DELETE&user.name=core&recursive=false')
+            .reply(200, { boolean: false });
+    });
+
+    it('should makedir and delete it', async () => {
+        await client.makedir('newFolder', '755');
+        await client.delete('newFolder');
+        await client.deleteFolder('oldFolder');
+    });
+
+    it('should encode the path and throw if nothing is deleted', async () => {
+        try {
+            await client.delete('a #1?.txt');
+            expect.fail('the error should be thrown');
+        } catch (err) {
+            expect(err.name).to.be.equal('FileNotFoundException');
+        }
+        expect(scope.isDone(), 'some requests are not sent').to.be.true();
+    });
+});
+
+describe('Upload and download in hdfs', () => {
+    let localPath: string;
+    let newLocalPath: string;
+    let uploaded: string;
+
+    before(() => {
+        localPath = path.join(os.tmpdir(), './.test/test.py');
+        newLocalPath = path.join(os.tmpdir(), './.test/new_test.py');
+        nock(namenode)
+            .put('/webhdfs/v1/users/core/test.py?op=CREATE&user.name=core&overwrite=true')
+            .reply(307, '', { Location: `${datanode}/webhdfs/v1/users/core/test.py?op=CREATE&overwrite=true` })
+            .get('/webhdfs/v1/users/core/test.py?op=OPEN&user.name=core')
+            .reply(307, '', { Location: `${datanode}/webhdfs/v1/users/core/test.py?op=OPEN` });
+        nock(datanode)
+            .put('/webhdfs/v1/users/core/test.py?op=CREATE&overwrite=true', (body: string) => {
+                uploaded = body;
+                return true;
+            })
+            .reply(201)
+            .get('/webhdfs/v1/users/core/test.py?op=OPEN')
+            .reply(200, () => uploaded);
+    });
+
+    it('should upload a file and download it', async () => {
+        const mockDirectory: any = {};
+        mockDirectory[localPath] = 'test content';
+        mockFs(mockDirectory);
+        await client.upload(localPath, 'test.py');
+        await client.download('test.py', newLocalPath);
+        const download: string = fs.readFileSync(newLocalPath, 'utf8');
+
+        expect(download).to.be.eq('test content');
+    });
+
+    after(() => mockFs.restore());
+});
+
+describe('Read and write in hdfs by streams', () => {
+    let written: string;
+
+    before(() => {
+        nock(namenode)
+            .get('/webhdfs/v1/users/core/log.txt?op=OPEN&user.name=core&offset=4&length=3')
+            .reply(307, '', { Location: `${datanode}/webhdfs/v1/users/core/log.txt?op=OPEN&offset=4&length=3` })
+            .put('/webhdfs/v1/users/core/out.txt?op=CREATE&user.name=core&overwrite=true')
+            .reply(307, '', { Location: `${datanode}/webhdfs/v1/users/core/out.txt?op=CREATE&overwrite=true` });
+        nock(datanode)
+            .get('/webhdfs/v1/users/core/log.txt?op=OPEN&offset=4&length=3')
+            .reply(200, '456')
+            .put('/webhdfs/v1/users/core/out.txt?op=CREATE&overwrite=true', (body: string) => {
+                written = body;
+                return true;
+            })
+            .reply(201);
+    });
+
+    it('should read a range of the file', async () => {
+        const stream: NodeJS.ReadableStream = await client.createReadStream('log.txt', { start: 4, end: 6 });
+        expect((await StreamOperation.streamToBuffer(stream)).toString()).to.be.equal('456');
+    });
+
+    it('should write a file after the stream is finished', async () => {
+        await StreamOperation.writeFile(client, 'out.txt', 'streamed content');
+        expect(written).to.be.equal('streamed content');
+    });
+});
+
+describe('Access hdfs via the proxy of the cluster', () => {
+    it('should send the requests to the proxy unless the host is in no_proxy', async () => {
+        const proxied: WebHdfsClient = new WebHdfsClient(testHdfsMountInfo, testHdfsServer, {
+            proxy: 'http://proxy.test:3128', no_proxy: ['.internal.test']
+        });
+        const scope: nock.Scope = nock('http://proxy.test:3128')
+            .get((uri: string) => uri === `${namenode}/webhdfs/v1/users/core/folder?op=GETFILESTATUS&user.name=core`)
+            .reply(200, { FileStatus: fileStatus('', 'DIRECTORY') });
+        const info: IFileInfo = await proxied.getinfo('folder');
+        expect(info.type).to.be.equal('directory');
+        expect(scope.isDone(), 'the request is not sent to the proxy').to.be.true();
+
+        const bypassed: WebHdfsClient = new WebHdfsClient(testHdfsMountInfo, testHdfsServer, {
+            proxy: 'http://proxy.test:3128', no_proxy: ['namenode.test']
+        });
+        nock(namenode)
+            .get('/webhdfs/v1/users/core/folder?op=GETFILESTATUS&user.name=core')
+            .reply(200, { FileStatus: fileStatus('', 'DIRECTORY') });
+        expect((await bypassed.getinfo('folder')).type).to.be.equal('directory');
+    });
+});